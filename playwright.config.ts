@@ -1,15 +1,12 @@
-import { defineConfig } from '@playwright/test';
+import { defineConfig } from 'playwright/test';
 
 export default defineConfig({
   testDir: './tests',
   fullyParallel: true,
-  reporter: 'html',
+  reporter: process.env.CI ? 'list' : 'html',
+  // Points every store the tests touch at a temporary directory instead of data/
+  globalSetup: './tests/globalSetup.ts',
   use: {
     baseURL: 'http://localhost:8080',
   },
-  webServer: {
-    command: 'npm run start',
-    url: 'http://localhost:8080',
-    reuseExistingServer: !process.env.CI
-  },
-}); 
\ No newline at end of file
+});
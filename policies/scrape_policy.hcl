@@ -4,6 +4,25 @@ resource "website" {
   attributes = {
     "domain" = "string"
     "is_premium" = "bool"
+    "is_blacklisted" = "bool"
+    "is_allowlisted" = "bool"
+    "subpages_count" = "number"
+    "max_depth" = "number"
+  }
+}
+
+resource "metrics" {
+  roles = ["admin", "pro_user"]
+  attributes = {
+    "detailed" = "bool"
+  }
+}
+
+// Optional extraction features, keyed by feature name
+resource "feature" {
+  roles = ["admin", "pro_user", "free_user"]
+  attributes = {
+    "domain" = "string"
   }
 }
 
@@ -39,6 +58,29 @@ policy "free_user_basic_scrape" {
   ]
 }
 
+// Free users may crawl a few shallow subpages
+policy "free_user_site_crawl" {
+  resource = "website"
+  role = "free_user"
+  actions = ["scrape_site"]
+  effect = "allow"
+  conditions = [
+    condition "non_premium" {
+      match = "!resource.is_premium"
+    },
+    condition "crawl_size" {
+      match = "resource.subpages_count <= 3 && resource.max_depth <= 1"
+    }
+  ]
+}
+
+policy "free_user_features" {
+  resource = "feature"
+  role = "free_user"
+  actions = ["use_subpage_crawl"]
+  effect = "allow"
+}
+
 // Pro user policy
 policy "pro_user_basic_scrape" {
   resource = "website"
@@ -59,10 +101,69 @@ policy "pro_user_advanced_scrape" {
   ]
 }
 
+policy "pro_user_site_crawl" {
+  resource = "website"
+  role = "pro_user"
+  actions = ["scrape_site"]
+  effect = "allow"
+  conditions = [
+    condition "crawl_size" {
+      match = "resource.subpages_count <= 20 && resource.max_depth <= 3"
+    }
+  ]
+}
+
+policy "pro_user_features" {
+  resource = "feature"
+  role = "pro_user"
+  actions = ["use_raw_html", "use_subpage_crawl", "use_summarization"]
+  effect = "allow"
+}
+
+// Pro users see summary metrics only; detailed metrics list scraped URLs
+policy "pro_user_view_metrics" {
+  resource = "metrics"
+  role = "pro_user"
+  actions = ["view_metrics"]
+  effect = "allow"
+  conditions = [
+    condition "summary_only" {
+      match = "!resource.detailed"
+    }
+  ]
+}
+
 // Admin policy
 policy "admin_full_access" {
   resource = "website"
   role = "admin"
-  actions = ["scrape_basic", "scrape_advanced", "scrape_premium", "scrape_manage"]
+  actions = ["scrape_basic", "scrape_advanced", "scrape_premium", "scrape_manage", "scrape_site"]
+  effect = "allow"
+}
+
+policy "admin_features" {
+  resource = "feature"
+  role = "admin"
+  actions = ["use_raw_html", "use_subpage_crawl", "use_summarization"]
+  effect = "allow"
+}
+
+policy "admin_view_metrics" {
+  resource = "metrics"
+  role = "admin"
+  actions = ["view_metrics"]
   effect = "allow"
-}
\ No newline at end of file
+}
+
+// Blacklisted domains are denied for every role
+policy "deny_blacklisted_domains" {
+  resource = "website"
+  roles = ["admin", "pro_user", "free_user"]
+  actions = ["scrape_basic", "scrape_advanced", "scrape_premium", "scrape_site"]
+  effect = "deny"
+  conditions = [
+    condition "blacklisted" {
+      match = "resource.is_blacklisted"
+    }
+  ]
+}
@@ -781,7 +781,10 @@ class BrowserManager extends EventEmitter {
     }
   }
 
-  async withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+  async withPage<T>(fn: (page: Page) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    // Cancelled or timed out before a page was needed
+    signal?.throwIfAborted();
+
     // Track this request
     this.activeRequests++;
     
@@ -791,6 +794,7 @@ class BrowserManager extends EventEmitter {
     let context: BrowserContext | null = null;
     let page: Page | null = null;
     let reusingPage = false; // Boolean to track if we're reusing a page from the pool
+    let onAbort: (() => void) | undefined;
     
     try {
       // Make sure the pool isn't being drained
@@ -873,8 +877,24 @@ class BrowserManager extends EventEmitter {
       await page.setDefaultNavigationTimeout(this.NAVIGATION_TIMEOUT);
       await page.setDefaultTimeout(this.PAGE_TIMEOUT);
       
+      // Closing the page on abort makes whatever fn is waiting on fail straight away
+      if (signal) {
+        const abortedPage = page;
+        onAbort = () => {
+          logger.debug('Request aborted, closing its page');
+          abortedPage.close().catch(() => {});
+        };
+        if (signal.aborted) {
+          onAbort();
+        } else {
+          signal.addEventListener('abort', onAbort, { once: true });
+        }
+      }
+      
       // Execute the provided function with our page
       const result = await fn(page);
+      // fn may have swallowed the errors caused by the page closing
+      signal?.throwIfAborted();
       
       // Calculate and log execution time
       const executionTime = Date.now() - startTime;
@@ -898,9 +918,18 @@ class BrowserManager extends EventEmitter {
       
     } finally {
       try {
+        if (signal && onAbort) {
+          signal.removeEventListener('abort', onAbort);
+        }
+
         // Use the improved cleanup method for both pooled and regular pages
         if (page) {
-          if (reusingPage) {
+          if (reusingPage && page.isClosed()) {
+            // Closed on abort; the pool must not hand it out again
+            await this.pagePool.destroy(page).catch((e: unknown) => {
+              logger.error('Error destroying aborted pooled page:', e);
+            });
+          } else if (reusingPage) {
             try {
               // For pooled pages, just reset and return to pool
               await page.evaluate(() => {
@@ -7,13 +7,25 @@ import dotenv from 'dotenv';
 import winston from 'winston';
 import process from 'process';
 import rateLimiterMiddleware from './middleware/rateLimiter';
-import { permitAuth } from './middleware/permitAuth';
+import { permitAuth, permitCrawlFeatures, permitFeatures, permitJob, permitScrapeSite, permitViewMetrics } from './middleware/permitAuth';
+import { requireApiKey, requireAdmin, requireOperator } from './middleware/apiKeyAuth';
 import { browserManager } from './browserManager';
 import { processWebsite } from './processLinks'; // Import the processWebsite middleware directly
 import processWebsiteRouter from './routes/processWebsite'; // Import our new processWebsite router
 import blacklistRouter from './routes/blacklist';
+import premiumDomainsRouter from './routes/premiumDomains';
+import allowlistRouter from './routes/allowlist';
+import usageRouter from './routes/usage';
+import apiKeysRouter from './routes/apiKeys';
+import authzRouter from './routes/authz';
+import auditRouter from './routes/audit';
+import tenantsRouter from './routes/tenants';
 import summarizeRouter from './routes/summarize';
-import { RequestQueue } from './utils/requestQueue';
+import politenessRouter from './routes/politeness';
+import jobsRouter from './routes/jobs';
+import queueRouter from './routes/queue';
+import { getJobCounts } from './utils/jobs';
+import { requestQueue } from './utils/requestQueue';
 import metrics from './routes/metrics';
 import path from 'path';
 import fs from 'fs';
@@ -46,13 +58,6 @@ const logger = winston.createLogger({
   ]
 });
 
-// Create and export request queue
-export const requestQueue = new RequestQueue(
-  parseInt(process.env.MAX_CONCURRENT_REQUESTS || '50', 10),
-  parseInt(process.env.REQUEST_TIMEOUT || '60000', 10),
-  parseInt(process.env.QUEUE_TIMEOUT || '120000', 10)
-);
-
 // Create Express app
 const app = express();
 const port = process.env.PORT || 8080;
@@ -70,8 +75,9 @@ app.use(cors({
   origin: process.env.NODE_ENV === 'production' 
     ? '*'
     : ['http://127.0.0.1:5500', 'http://localhost:5500'],
-  methods: ['GET', 'POST', 'DELETE'],
-  allowedHeaders: ['Content-Type', 'x-api-key']
+  methods: ['GET', 'POST', 'PUT', 'DELETE'],
+  allowedHeaders: ['Content-Type', 'x-api-key'],
+  exposedHeaders: ['RateLimit-Policy', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After']
 }));
 // app.use(helmet());
 app.use(express.json());
@@ -130,55 +136,80 @@ app.use((req, res, next) => {
 app.use(rateLimiterMiddleware);
 
 // Protected routes with Permit.io authorization
-app.post('/api/processLinks', permitAuth, processWebsite);
+app.post('/api/processLinks', permitAuth, permitFeatures, processWebsite);
 
-// Mount blacklist router with proper error handling
-app.use('/api/blacklist', (req, res, next) => {
-    // Check for API key
-    const apiKey = req.headers['x-api-key'] as string | undefined;
-    const validKeys = [
-        process.env.ADMIN_API_KEY,
-        process.env.PRO_API_KEY,
-        process.env.FREE_API_KEY
-    ].filter((key): key is string => typeof key === 'string');
-    
-    if (!apiKey || !validKeys.includes(apiKey)) {
-        return res.status(401).json({ error: 'Invalid or missing API key' });
+// Mount asynchronous jobs; submissions are authorized like the synchronous route for their type
+app.use('/api/jobs', (req, res, next) => {
+    if (req.method === 'POST') {
+        const checkFeatures = req.body?.type === 'crawl' ? permitCrawlFeatures : permitFeatures;
+        return permitJob(req, res, () => checkFeatures(req, res, next));
     }
-    
+
+    requireApiKey(req, res, next);
+}, jobsRouter);
+
+// Mount blacklist router with proper error handling
+app.use('/api/blacklist', requireApiKey, (req, res, next) => {
     // For non-GET requests, require admin API key
-    if (req.method !== 'GET' && apiKey !== process.env.ADMIN_API_KEY) {
-        return res.status(403).json({ error: 'Admin access required for this operation' });
+    if (req.method !== 'GET') {
+        return requireAdmin(req, res, next);
     }
     
     next();
 }, blacklistRouter);
 
-// Mount text processing router
-app.use('/api/text', summarizeRouter);
+// Mount premium domain registry; anyone with a key can read it, only operators can change it
+app.use('/api/premium-domains', requireApiKey, (req, res, next) => {
+    if (req.method !== 'GET') {
+        return requireOperator(req, res, next);
+    }
 
-// Public routes
-app.use('/metrics', metrics);
-app.use('/process', processWebsiteRouter);
+    next();
+}, premiumDomainsRouter);
 
-// Catch-all route to serve index.html
-app.get('*', (req, res, next) => {
-    const indexPath = path.join(rootDir, 'index.html');
-    
-    // Check if index.html exists
-    if (!fs.existsSync(indexPath)) {
-        logger.error(`index.html not found at ${indexPath}`);
-        return next(new Error('index.html not found'));
+// Mount quota usage for the calling key
+app.use('/api/usage', requireApiKey, usageRouter);
+
+// Mount allowlist router; any key can check its own access, only admins can change entries
+app.use('/api/allowlist', requireApiKey, (req, res, next) => {
+    if (req.method !== 'GET') {
+        return requireAdmin(req, res, next);
     }
-    
-    res.sendFile(indexPath);
-});
 
-// Error handling middleware
-app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-    logger.error('Unhandled error:', err);
-    res.status(500).json({ error: 'Internal server error' });
-});
+    next();
+}, allowlistRouter);
+
+// Mount API key management router (admin only)
+app.use('/api/keys', requireApiKey, requireAdmin, apiKeysRouter);
+
+// Mount authorization management router
+app.use('/api/authz', authzRouter);
+
+// Mount authorization audit log router (admin only)
+app.use('/api/audit', requireApiKey, requireAdmin, auditRouter);
+
+// Mount per-host politeness settings; admins can inspect them, only operators can change
+// them since they apply to every tenant scraping the host
+app.use('/api/politeness', requireApiKey, requireAdmin, (req, res, next) => {
+    if (req.method !== 'GET') {
+        return requireOperator(req, res, next);
+    }
+
+    next();
+}, politenessRouter);
+
+// Mount queue status and dead letters (admin only)
+app.use('/api/queue', requireApiKey, requireAdmin, queueRouter);
+
+// Mount tenant management router (operators only)
+app.use('/api/tenants', requireApiKey, requireOperator, tenantsRouter);
+
+// Mount text processing router
+app.use('/api/text', summarizeRouter);
+
+// Metrics and multi-page crawls are authorized like single-page scrapes
+app.use('/metrics', permitViewMetrics, metrics);
+app.use('/process', permitScrapeSite, permitCrawlFeatures, processWebsiteRouter);
 
 // Health check endpoint
 app.get('/health', async (req, res) => {
@@ -192,6 +223,7 @@ app.get('/health', async (req, res) => {
     status: 'healthy',
     browser: browserStatus,
     queue: queueStatus,
+    jobs: getJobCounts(),
     memory: {
       heapUsed: Math.round(memoryUsage.heapUsed / 1024 / 1024) + 'MB',
       heapTotal: Math.round(memoryUsage.heapTotal / 1024 / 1024) + 'MB',
@@ -201,9 +233,30 @@ app.get('/health', async (req, res) => {
   });
 });
 
+// Catch-all route to serve index.html
+app.get('*', (req, res, next) => {
+    const indexPath = path.join(rootDir, 'index.html');
+    
+    // Check if index.html exists
+    if (!fs.existsSync(indexPath)) {
+        logger.error(`index.html not found at ${indexPath}`);
+        return next(new Error('index.html not found'));
+    }
+    
+    res.sendFile(indexPath);
+});
+
+// Error handling middleware
+app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    logger.error('Unhandled error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+});
+
 // Start server
 const server = app.listen(port, () => {
   logger.info(`Server is running on port ${port}`);
+  // Pick up durable tasks left by the previous instance
+  requestQueue.start();
 });
 
 // Graceful shutdown
@@ -214,6 +267,8 @@ process.on('SIGTERM', () => {
     logger.info('HTTP server closed');
     
     try {
+      // Let the next instance take over queued tasks without waiting for leases to run out
+      requestQueue.release();
       await browserManager.shutdown();
       logger.info('Browser manager closed');
       process.exit(0);
@@ -231,6 +286,8 @@ process.on('SIGINT', () => {
     logger.info('HTTP server closed');
     
     try {
+      // Let the next instance take over queued tasks without waiting for leases to run out
+      requestQueue.release();
       await browserManager.shutdown();
       logger.info('Browser manager closed');
       process.exit(0);
@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiKeyRecord, recordApiKeyUse, resolveApiKey } from '../utils/apiKeyStore';
+import { PermitUser } from '../utils/decisionEngine';
+import { DEFAULT_TENANT } from '../utils/tenantStore';
+import { getRequestsThisHour } from '../utils/quota';
+
+/**
+ * Build the user context for a resolved key, using the tier as its role.
+ * `requests_per_hour` is the key's count for the current hour, for the policies' rate_limit conditions.
+ */
+export function toPermitUser(record: ApiKeyRecord): PermitUser {
+  return {
+    key: record.userKey,
+    email: record.ownerEmail,
+    tenant: record.tenant,
+    attributes: {
+      tier: record.tier,
+      roles: [record.tier],
+      requests_per_hour: getRequestsThisHour(record)
+    }
+  };
+}
+
+/**
+ * Admins of the default tenant operate the whole deployment and can see every tenant
+ */
+export function isOperator(record: ApiKeyRecord | undefined): boolean {
+  return record?.tier === 'admin' && record.tenant === DEFAULT_TENANT;
+}
+
+/**
+ * Resolve the x-api-key header against the key registry and attach the record
+ */
+export const requireApiKey = (req: Request, res: Response, next: NextFunction) => {
+  const apiKey = req.headers['x-api-key'] as string | undefined;
+  const record = resolveApiKey(apiKey);
+
+  if (!record) {
+    return res.status(401).json({ error: 'Invalid or missing API key' });
+  }
+
+  recordApiKeyUse(record, req.ip);
+  req.apiKey = record;
+  req.user = toPermitUser(record);
+  next();
+};
+
+/**
+ * Require an admin key; must run after requireApiKey
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (req.apiKey?.tier !== 'admin') {
+    return res.status(403).json({ error: 'Admin access required for this operation' });
+  }
+
+  next();
+};
+
+/**
+ * Require an admin key of the default tenant; must run after requireApiKey
+ */
+export const requireOperator = (req: Request, res: Response, next: NextFunction) => {
+  if (!isOperator(req.apiKey)) {
+    return res.status(403).json({ error: 'Operator access required for this operation' });
+  }
+
+  next();
+};
+
+// Type augmentation for Express Request
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKeyRecord;
+    }
+  }
+}
@@ -1,8 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
-import { Permit } from 'permitio';
 import winston from 'winston';
 import dotenv from 'dotenv';
 import { isBlacklisted } from '../routes/blacklist';
+import { isPremiumDomain } from '../routes/premiumDomains';
+import { ALLOWLIST_ONLY, isAllowlisted } from '../routes/allowlist';
+import { ApiKeyRecord, recordApiKeyUse, resolveApiKey } from '../utils/apiKeyStore';
+import { AuthzCheck, AuthzDecision, AuthzResource, PermitUser, getDecisionEngine } from '../utils/decisionEngine';
+import { FEATURES, FeatureName, getRequestedFeatures } from '../utils/features';
+import { getDeliveredFeaturesCredits, refundCredits, reserveCredits } from '../utils/credits';
+import { sendQuotaExceeded, setRateLimitHeaders } from './rateLimiter';
+import { toPermitUser } from './apiKeyAuth';
+import { recordAuditEntry } from '../utils/auditLog';
+import { ErrorCode, sendErrorResponse } from '../utils/errorHandler';
+import { JOB_TYPES } from '../utils/jobs';
+import { DEFAULT_MAX_DEPTH, DEFAULT_SUBPAGES_COUNT } from '../routes/processWebsite';
 
 // Ensure environment variables are loaded
 dotenv.config();
@@ -29,162 +40,478 @@ const logger = winston.createLogger({
 logger.debug('Environment variables in permitAuth:', {
   PERMIT_API_KEY_SET: !!process.env.PERMIT_API_KEY,
   PERMIT_API_KEY_LENGTH: process.env.PERMIT_API_KEY?.length,
+  AUTHZ_ENGINE: process.env.AUTHZ_ENGINE,
   NODE_ENV: process.env.NODE_ENV
 });
 
-// Initialize Permit.io SDK
-let permit: Permit;
-
-function initializePermit() {
-  if (!process.env.PERMIT_API_KEY) {
-    throw new Error('PERMIT_API_KEY environment variable is required');
-  }
-
-  permit = new Permit({
-    token: process.env.PERMIT_API_KEY,
-    pdp: 'https://cloudpdp.api.permit.io'
-  });
-
-  logger.info('Permit.io SDK initialized');
-  return permit;
+/**
+ * A single permission check made on behalf of a request
+ */
+export interface PermissionRequest {
+  action: string;
+  resource: AuthzResource;
+  isBlacklistedDomain: boolean;
+  // Only set for checks on a website; undefined means the allowlist does not apply
+  isAllowlistedDomain?: boolean;
 }
 
-interface PermitUser {
-  key: string;
-  email: string;
-  attributes?: {
-    tier: string;
-    roles?: string[];
-  };
-}
+// Assign the request ID shared by the audit trail and downstream handlers
+const ensureRequestId = (req: Request): string => {
+  req.requestId = req.requestId || Date.now().toString(36) + Math.random().toString(36).substring(2, 7);
+  return req.requestId;
+};
 
-export const permitAuth = async (req: Request, res: Response, next: NextFunction) => {
+// Rejected requests are not charged; give back what the rate limiter reserved
+const refundReserved = (req: Request) => refundCredits(req, req.credits?.reserved || 0);
+
+// Resolve the caller's key, answering 401 when it is missing or unknown
+const resolveCaller = (req: Request, res: Response): ApiKeyRecord | null => {
   const apiKey = req.headers['x-api-key'] as string;
-  const url = req.body.url;
 
   if (!apiKey) {
-    return res.status(401).json({ success: false, error: 'API key is required' });
+    res.status(401).json({ success: false, error: 'API key is required' });
+    return null;
   }
 
+  // Resolve the API key through the key registry
+  const record = resolveApiKey(apiKey);
+  if (!record) {
+    res.status(401).json({ success: false, error: 'Invalid API key' });
+    return null;
+  }
+  recordApiKeyUse(record, req.ip);
+  return record;
+};
+
+// Normalize a user-supplied URL to its hostname, or null when it cannot be parsed
+export const getHostname = (url: string): string | null => {
   try {
-    // Initialize Permit if not already initialized
-    if (!permit) {
-      permit = initializePermit();
+    return new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`).hostname;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * The check made for a single-page scrape (scrape_basic / scrape_advanced)
+ */
+export const scrapeCheck = (record: ApiKeyRecord, hostname: string, body: any): PermissionRequest => {
+  const isBlacklistedDomain = isBlacklisted(hostname, record.tenant);
+  const isAllowlistedDomain = isAllowlisted(hostname, record);
+  return {
+    // Determine required action based on request parameters
+    action: body.advanced ? 'scrape_advanced' : 'scrape_basic',
+    // Create resource with proper key and attributes including blacklist status
+    resource: {
+      type: 'website',
+      key: hostname,
+      attributes: {
+        domain: hostname,
+        // Premium is a property of the target domain, not of the requested options
+        is_premium: isPremiumDomain(hostname, record.tenant),
+        is_blacklisted: isBlacklistedDomain,
+        is_allowlisted: isAllowlistedDomain
+      }
+    },
+    isBlacklistedDomain,
+    isAllowlistedDomain
+  };
+};
+
+/**
+ * The check made for a multi-page crawl (scrape_site) with the requested crawl size
+ */
+export const scrapeSiteCheck = (record: ApiKeyRecord, hostname: string, body: any): PermissionRequest => {
+  const isBlacklistedDomain = isBlacklisted(hostname, record.tenant);
+  const isAllowlistedDomain = isAllowlisted(hostname, record);
+  return {
+    action: 'scrape_site',
+    resource: {
+      type: 'website',
+      key: hostname,
+      attributes: {
+        domain: hostname,
+        is_premium: isPremiumDomain(hostname, record.tenant),
+        is_blacklisted: isBlacklistedDomain,
+        is_allowlisted: isAllowlistedDomain,
+        subpages_count: Number(body.subpagesCount ?? DEFAULT_SUBPAGES_COUNT),
+        max_depth: Number(body.maxDepth ?? DEFAULT_MAX_DEPTH)
+      }
+    },
+    isBlacklistedDomain,
+    isAllowlistedDomain
+  };
+};
+
+/**
+ * One check per requested feature, in the order the features were given
+ */
+export const featureChecks = (features: FeatureName[], hostname: string | null): AuthzCheck[] => {
+  return features.map(feature => ({
+    action: FEATURES[feature].action,
+    resource: {
+      type: 'feature',
+      key: feature,
+      attributes: hostname ? { domain: hostname } : {}
     }
+  }));
+};
+
+/**
+ * Ask the decision engine, record the decision and either continue or answer 403/503
+ */
+const authorize = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  record: ApiKeyRecord,
+  { action, resource, isBlacklistedDomain, isAllowlistedDomain }: PermissionRequest
+) => {
+  // Initialize the decision engine if not already initialized
+  const engine = getDecisionEngine();
+  const { tier, tenant } = record;
+
+  // Create user object with proper tier-based roles
+  const user: PermitUser = toPermitUser(record);
 
-    // Map API keys to user keys and tiers
-    let userKey: string;
-    let tier: string;
+  logger.debug('User object for permission check:', { 
+    userKey: record.userKey,
+    tier, 
+    tenant,
+    keyPrefix: record.prefix,
+    roles: user.attributes?.roles,
+    action,
+    resourceType: resource.type,
+    resourceKey: resource.key
+  });
+  
+  // Sync user with the decision engine
+  const decisionStart = Date.now();
+  await engine.syncUser(user);
+
+  logger.debug('Permission check details:', { 
+    action, 
+    resource,
+    user: {
+      key: user.key,
+      tier: user.attributes?.tier,
+      roles: user.attributes?.roles
+    }
+  });
+
+  // In allowlist-only mode, domains outside the caller's allowlist are denied without asking the engine
+  const notAllowlisted = ALLOWLIST_ONLY && isAllowlistedDomain === false;
+
+  // Check permission with complete resource context
+  const decision: AuthzDecision = notAllowlisted
+    ? { allowed: false, engine: 'allowlist', reason: 'domain is not allowlisted' }
+    : await engine.check(user, action, resource, tenant);
+  const permissionCheck = decision.allowed;
+
+  // Reason reported to the audit trail when the request is denied
+  const denyReason = decision.unavailable
+    ? 'authorization_unavailable'
+    : notAllowlisted ? 'not_allowlisted'
+    : isBlacklistedDomain ? 'blacklisted_domain' : 'insufficient_permissions';
+
+  // Record the decision in the audit trail
+  recordAuditEntry({
+    requestId: ensureRequestId(req),
+    userKey: user.key,
+    tier,
+    tenant,
+    action,
+    resourceType: resource.type,
+    resourceKey: resource.key,
+    attributes: resource.attributes,
+    decision: permissionCheck ? 'allow' : 'deny',
+    reason: permissionCheck ? (decision.reason || 'allowed') : denyReason,
+    engine: decision.engine,
+    policy: decision.policy,
+    degraded: decision.degraded,
+    latencyMs: Date.now() - decisionStart
+  });
+
+  logger.debug('Permission check result:', {
+    allowed: permissionCheck,
+    engine: decision.engine,
+    degraded: decision.degraded,
+    action,
+    userKey: user.key,
+    tier,
+    roles: user.attributes?.roles,
+    isBlacklisted: isBlacklistedDomain
+  });
+
+  if (decision.unavailable || !permissionCheck) {
+    refundReserved(req);
+  }
+
+  if (decision.unavailable) {
+    logger.error(`Authorization unavailable for ${action}, denying request for ${user.key}`);
+    return res.status(503).json({
+      success: false,
+      error: 'Authorization service unavailable',
+      details: decision.reason,
+      permit_decision: {
+        allowed: false,
+        reason: 'authorization_unavailable'
+      }
+    });
+  }
+
+  if (!permissionCheck) {
+    logger.warn(`Access denied for user ${user.key} (${tier}) - insufficient permissions for ${action}`);
     
-    switch (apiKey) {
-      case process.env.ADMIN_API_KEY:
-        userKey = '2025DEVChallenge_admin';
-        tier = 'admin';
-        break;
-      case process.env.PRO_API_KEY:
-        userKey = '2025DEVChallenge_user';
-        tier = 'pro_user';
-        break;
-      case process.env.FREE_API_KEY:
-        userKey = '2025DEVChallenge_user';
-        tier = 'free_user';
-        break;
-      default:
-        return res.status(401).json({ success: false, error: 'Invalid API key' });
+    if (notAllowlisted) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied',
+        details: 'This domain is not on the allowlist for your API key',
+        permit_decision: {
+          allowed: false,
+          reason: 'not_allowlisted'
+        }
+      });
     }
 
-    // Create user object with proper tier-based roles
-    const user: PermitUser = {
-      key: userKey,
-      email: `${userKey}@scrapebase.xyz`,
-      attributes: {
-        tier,
-        roles: [tier]  // Use the tier directly as role
+    // Return specific error for blacklisted domains
+    if (isBlacklistedDomain) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied by Permit.io',
+        details: 'This domain has been blacklisted by administrators',
+        permit_decision: {
+          allowed: false,
+          reason: 'blacklisted_domain'
+        }
+      });
+    }
+    
+    return res.status(403).json({
+      success: false,
+      error: 'Access denied by Permit.io',
+      details: `Your current plan (${tier}) does not allow ${action} operations`,
+      permit_decision: {
+        allowed: false,
+        reason: 'insufficient_permissions'
       }
-    };
+    });
+  }
 
+  // Add user context to request for downstream use
+  req.user = user;
+  req.apiKey = record;
+  next();
+};
+
+const sendAuthorizationError = (req: Request, res: Response, error: any) => {
+  logger.error('Permit.io authorization error:', error);
+  refundReserved(req);
+  return res.status(500).json({
+    success: false,
+    error: 'Authorization service error',
+    details: process.env.NODE_ENV === 'development' ? error.message : undefined
+  });
+};
+
+/**
+ * Authorize single-page scrapes (scrape_basic / scrape_advanced)
+ */
+export const permitAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const url = req.body.url;
+  ensureRequestId(req);
+
+  const record = resolveCaller(req, res);
+  if (!record) return;
+
+  try {
     // For routes that don't have a URL (like text processing), skip URL-specific checks
     if (!url) {
       // Add user context to request for downstream use
-      req.user = user;
+      req.user = toPermitUser(record);
+      req.apiKey = record;
       return next();
     }
 
-    const hostname = new URL(url).hostname;
-    const isBlacklistedDomain = isBlacklisted(hostname);
-
-    logger.debug('User object for permission check:', { 
-      userKey,
-      tier, 
-      apiKey,
-      roles: user.attributes?.roles,
-      action: req.body.advanced ? 'scrape_advanced' : 'scrape_basic',
-      resourceType: 'website',
-      resourceKey: hostname
-    });
-    
-    // Sync user with Permit.io
-    await permit.api.syncUser(user);
+    const hostname = getHostname(String(url).trim());
+    if (!hostname) {
+      refundReserved(req);
+      return sendErrorResponse(res, ErrorCode.INVALID_URL, 'Invalid URL format', ensureRequestId(req));
+    }
 
-    // Create resource with proper key and attributes including blacklist status
-    const resource = {
-      type: 'website',
-      key: hostname,
-      attributes: {
-        domain: hostname,
-        is_premium: req.body.advanced,
-        is_blacklisted: isBlacklistedDomain
-      }
-    };
+    await authorize(req, res, next, record, scrapeCheck(record, hostname, req.body));
+  } catch (error: any) {
+    return sendAuthorizationError(req, res, error);
+  }
+};
 
-    // Determine required action based on request parameters
-    const action = req.body.advanced ? 'scrape_advanced' : 'scrape_basic';
-
-    logger.debug('Permission check details:', { 
-      action, 
-      resource,
-      user: {
-        key: user.key,
-        tier: user.attributes?.tier,
-        roles: user.attributes?.roles
-      }
+/**
+ * Authorize multi-page crawls (scrape_site) with the requested crawl size
+ */
+export const permitScrapeSite = async (req: Request, res: Response, next: NextFunction) => {
+  const { url } = req.body;
+  ensureRequestId(req);
+
+  const record = resolveCaller(req, res);
+  if (!record) return;
+
+  if (!url || typeof url !== 'string') {
+    refundReserved(req);
+    return res.status(400).json({ success: false, error: 'URL is required' });
+  }
+
+  const hostname = getHostname(url.trim());
+  if (!hostname) {
+    refundReserved(req);
+    return res.status(400).json({ success: false, error: 'Invalid URL provided' });
+  }
+
+  try {
+    await authorize(req, res, next, record, scrapeSiteCheck(record, hostname, req.body));
+  } catch (error: any) {
+    return sendAuthorizationError(req, res, error);
+  }
+};
+
+/**
+ * Authorize job submissions like the synchronous route for the job's type
+ */
+export const permitJob = async (req: Request, res: Response, next: NextFunction) => {
+  const type = req.body?.type;
+
+  if (!JOB_TYPES.includes(type)) {
+    refundReserved(req);
+    return res.status(400).json({ success: false, error: `type must be one of ${JOB_TYPES.join(', ')}` });
+  }
+
+  return type === 'crawl' ? permitScrapeSite(req, res, next) : permitAuth(req, res, next);
+};
+
+/**
+ * Authorize reads of the metrics endpoint (view_metrics)
+ */
+export const permitViewMetrics = async (req: Request, res: Response, next: NextFunction) => {
+  ensureRequestId(req);
+
+  const record = resolveCaller(req, res);
+  if (!record) return;
+
+  try {
+    await authorize(req, res, next, record, {
+      action: 'view_metrics',
+      resource: {
+        type: 'metrics',
+        key: 'server',
+        attributes: {
+          // Detailed metrics expose the URLs open in every browser context
+          detailed: req.query.detailed === 'true'
+        }
+      },
+      isBlacklistedDomain: false
     });
+  } catch (error: any) {
+    return sendAuthorizationError(req, res, error);
+  }
+};
+
+/**
+ * Which of the requested features the caller may use
+ */
+export interface FeatureAuthorization {
+  granted: FeatureName[];
+  denied: FeatureName[];
+}
 
-    // Check permission with complete resource context
-    const permissionCheck = await permit.check(user.key, action, resource.type, {
-      tenant: 'default',
-      resource: resource
+/**
+ * Features a multi-page crawl needs whether or not the caller lists them
+ */
+export const CRAWL_REQUIRED_FEATURES: FeatureName[] = ['subpage_crawl'];
+
+/**
+ * The requested features plus the ones a route requires, required ones first
+ */
+export const withRequiredFeatures = (features: FeatureName[], required: FeatureName[]): FeatureName[] => {
+  return Array.from(new Set([...required, ...features]));
+};
+
+/**
+ * Check every requested feature in one batch; must run after a permit* middleware.
+ * Denied optional features are reported on req.features instead of failing the request;
+ * a denied required feature is answered with 403.
+ */
+const authorizeFeatures = async (req: Request, res: Response, next: NextFunction, required: FeatureName[]) => {
+  const requested = getRequestedFeatures(req.body);
+  const { unknown } = requested;
+  const features = withRequiredFeatures(requested.features, required);
+
+  if (unknown.length > 0) {
+    refundReserved(req);
+    return res.status(400).json({
+      success: false,
+      error: `Unknown features: ${unknown.join(', ')}`,
+      details: `Supported features are ${Object.keys(FEATURES).join(', ')}`
     });
+  }
+
+  if (features.length === 0) {
+    req.features = { granted: [], denied: [] };
+    return next();
+  }
+
+  const record = req.apiKey;
+  if (!record) {
+    return res.status(401).json({ success: false, error: 'API key is required' });
+  }
+
+  try {
+    const engine = getDecisionEngine();
+    const user = req.user || toPermitUser(record);
+    const domain = req.body.url ? getHostname(String(req.body.url).trim()) : null;
+
+    const checks = featureChecks(features, domain);
 
-    logger.debug('Permission check result:', {
-      allowed: permissionCheck,
-      action,
-      userKey: user.key,
-      tier,
-      roles: user.attributes?.roles,
-      isBlacklisted: isBlacklistedDomain
+    const decisionStart = Date.now();
+    await engine.syncUser(user);
+    const decisions = await engine.bulkCheck(user, checks, record.tenant);
+    const latencyMs = Date.now() - decisionStart;
+
+    const authorization: FeatureAuthorization = { granted: [], denied: [] };
+    decisions.forEach((decision, index) => {
+      const { action, resource } = checks[index];
+      (decision.allowed ? authorization.granted : authorization.denied).push(features[index]);
+
+      recordAuditEntry({
+        requestId: ensureRequestId(req),
+        userKey: user.key,
+        tier: record.tier,
+        tenant: record.tenant,
+        action,
+        resourceType: resource.type,
+        resourceKey: resource.key,
+        attributes: resource.attributes,
+        decision: decision.allowed ? 'allow' : 'deny',
+        reason: decision.allowed
+          ? (decision.reason || 'allowed')
+          : decision.unavailable ? 'authorization_unavailable' : 'insufficient_permissions',
+        engine: decision.engine,
+        policy: decision.policy,
+        degraded: decision.degraded,
+        latencyMs
+      });
     });
 
-    if (!permissionCheck) {
-      logger.warn(`Access denied for user ${user.key} (${tier}) - insufficient permissions for ${action}`);
-      
-      // Return specific error for blacklisted domains
-      if (isBlacklistedDomain) {
-        return res.status(403).json({
-          success: false,
-          error: 'Access denied by Permit.io',
-          details: 'This domain has been blacklisted by administrators',
-          permit_decision: {
-            allowed: false,
-            reason: 'blacklisted_domain'
-          }
-        });
-      }
-      
+    if (authorization.denied.length > 0) {
+      logger.info(`Features denied for user ${user.key} (${record.tier}): ${authorization.denied.join(', ')}`);
+    }
+
+    const missing = required.filter(feature => authorization.denied.includes(feature));
+    if (missing.length > 0) {
+      refundReserved(req);
       return res.status(403).json({
         success: false,
         error: 'Access denied by Permit.io',
-        details: `Your current plan (${tier}) does not allow ${action} operations`,
+        details: `Your current plan (${record.tier}) does not allow ${missing.join(', ')}`,
         permit_decision: {
           allowed: false,
           reason: 'insufficient_permissions'
@@ -192,24 +519,41 @@ export const permitAuth = async (req: Request, res: Response, next: NextFunction
       });
     }
 
-    // Add user context to request for downstream use
-    req.user = user;
+    // Only granted features that this route delivers are charged
+    const featureCredits = getDeliveredFeaturesCredits(req, authorization.granted);
+    const reservation = await reserveCredits(req, featureCredits);
+    if (reservation && !reservation.allowed) {
+      // The request is rejected, so nothing it reserved earlier is charged either
+      refundReserved(req);
+      return sendQuotaExceeded(req, res, record, reservation, featureCredits);
+    }
+    if (reservation) {
+      setRateLimitHeaders(res, reservation.usage);
+    }
+
+    req.features = authorization;
     next();
   } catch (error: any) {
-    logger.error('Permit.io authorization error:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Authorization service error',
-      details: process.env.NODE_ENV === 'development' ? error.message : undefined
-    });
+    return sendAuthorizationError(req, res, error);
   }
 };
 
+export const permitFeatures = (req: Request, res: Response, next: NextFunction) => authorizeFeatures(req, res, next, []);
+
+/**
+ * permitFeatures for multi-page crawls, which also need `subpage_crawl`
+ */
+export const permitCrawlFeatures = (req: Request, res: Response, next: NextFunction) => {
+  return authorizeFeatures(req, res, next, CRAWL_REQUIRED_FEATURES);
+};
+
 // Type augmentation for Express Request
 declare global {
   namespace Express {
     interface Request {
       user?: PermitUser;
+      requestId?: string;
+      features?: FeatureAuthorization;
     }
   }
 }
\ No newline at end of file
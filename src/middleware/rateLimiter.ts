@@ -1,57 +1,122 @@
-import rateLimit from 'express-rate-limit';
 import { Request, Response, NextFunction } from 'express';
+import { ApiKeyRecord, resolveApiKey } from '../utils/apiKeyStore';
+import { QUOTA_WINDOWS, QuotaResult, QuotaUsage, QuotaWindow, consumeQuota, getQuotaLimits, getQuotaSubject, getQuotaUsage, windowStart } from '../utils/quota';
+import { estimateCredits } from '../utils/credits';
+import { ErrorCode, sendErrorResponse } from '../utils/errorHandler';
 
-// Create tier-based rate limiters with separate stores
-const basicLimiter = rateLimit({
-    windowMs: 60 * 1000, // 1 minute
-    max: 5, // 5 requests per minute
-    message: {
-        success: false,
-        message: "Rate limit exceeded. Basic users are limited to 5 requests per minute.",
-        retryAfter: 60
-    },
-    keyGenerator: (req: Request): string => {
-        const apiKey = req.headers['x-api-key'];
-        return (typeof apiKey === 'string' ? apiKey : req.ip) || 'default';
-    },
-    skip: (req: Request) => {
-        const apiKey = req.headers['x-api-key'] as string;
-        // Only admin and pro users skip the basic limiter
-        return apiKey === process.env.ADMIN_API_KEY || apiKey === process.env.PRO_API_KEY;
+// Resolve the caller through the key registry; unknown callers count as basic
+const getCaller = (req: Request): ApiKeyRecord | null => {
+    return resolveApiKey(req.headers['x-api-key'] as string | undefined);
+};
+
+const TIER_LABELS: Record<string, string> = {
+    free_user: 'Basic users',
+    pro_user: 'Pro users'
+};
+
+// Only scrapes, crawls, job submissions and text processing cost credits; job status reads,
+// static files and admin routes are never counted
+const CHARGED_PATHS = ['/api/processLinks', '/process/api/processWebsite', '/api/jobs', '/api/text/process'];
+
+const isCharged = (req: Request): boolean => req.method === 'POST' && CHARGED_PATHS.includes(req.path.replace(/\/+$/, ''));
+
+// Checking usage never counts against it
+const isUsage = (req: Request): boolean => req.method === 'GET' && req.path === '/api/usage';
+
+// Rejections happen before authorization, so assign the request ID shared with later handlers here
+const ensureRequestId = (req: Request): string => {
+    req.requestId = req.requestId || Date.now().toString(36) + Math.random().toString(36).substring(2, 7);
+    return req.requestId;
+};
+
+const secondsUntil = (time: string, now: number): number => {
+    return Math.max(Math.ceil((new Date(time).getTime() - now) / 1000), 0);
+};
+
+// Middleware to apply the caller's layered quotas (per minute, hour, day and month).
+// The request's credits are reserved up front; routes refund work they did not do.
+export default async function rateLimiterMiddleware(req: Request, res: Response, next: NextFunction) {
+    if (!isCharged(req) && !isUsage(req)) {
+        return next();
     }
-});
-
-const proLimiter = rateLimit({
-    windowMs: 60 * 1000, // 1 minute
-    max: 10, // 10 requests per minute
-    message: {
-        success: false,
-        message: "Rate limit exceeded. Pro users are limited to 10 requests per minute.",
-        retryAfter: 60
-    },
-    keyGenerator: (req: Request): string => {
-        const apiKey = req.headers['x-api-key'];
-        return (typeof apiKey === 'string' ? apiKey : req.ip) || 'default';
-    },
-    skip: (req: Request) => {
-        const apiKey = req.headers['x-api-key'] as string;
-        // Only admin users skip the pro limiter
-        return apiKey === process.env.ADMIN_API_KEY;
+
+    const record = getCaller(req);
+    const limits = getQuotaLimits(record);
+    const subject = getQuotaSubject(record, req.ip);
+
+    if (isUsage(req)) {
+        // Not counted, but still reports the caller's budget
+        try {
+            setRateLimitHeaders(res, await getQuotaUsage(subject, limits));
+        } catch (error) {
+            // The usage route reports the store error itself
+        }
+        return next();
     }
-});
-
-// Middleware to apply appropriate rate limiter
-export default function rateLimiterMiddleware(req: Request, res: Response, next: NextFunction) {
-    const apiKey = req.headers['x-api-key'] as string;
-    
-    if (apiKey === process.env.ADMIN_API_KEY) {
-        // Admin users bypass rate limiting
-        next();
-    } else if (apiKey === process.env.PRO_API_KEY) {
-        // Pro users get higher limit
-        proLimiter(req, res, next);
-    } else {
-        // Basic users get lower limit
-        basicLimiter(req, res, next);
+
+    const credits = estimateCredits(req);
+    const reservedAt = Date.now();
+    const result = await consumeQuota(subject, limits, credits, reservedAt);
+
+    if (result.allowed) {
+        req.credits = { subject, limits, reserved: credits, refunded: 0, reservedAt, usage: result.usage };
+        setRateLimitHeaders(res, result.usage);
+        return next();
     }
-} 
\ No newline at end of file
+
+    sendQuotaExceeded(req, res, record, result, credits);
+}
+
+/**
+ * Describe the caller's budget with the IETF RateLimit headers. `RateLimit-Policy` lists
+ * every limited window; the other headers describe `window`, or by default the window
+ * with the fewest credits left. Callers without limits get no headers.
+ */
+export function setRateLimitHeaders(res: Response, usage: QuotaUsage, window?: QuotaWindow, now: number = Date.now()) {
+    const limited = QUOTA_WINDOWS.filter(name => usage[name].limit !== null);
+    if (limited.length === 0 || res.headersSent) {
+        return;
+    }
+
+    // On a tie the longer window wins, since it is the one that takes longer to recover
+    const tightest = window || limited.reduce((lowest, name) =>
+        (usage[name].remaining as number) <= (usage[lowest].remaining as number) ? name : lowest);
+    const { limit, remaining, resetAt } = usage[tightest];
+
+    const policy = limited.map(name => {
+        const seconds = Math.round((new Date(usage[name].resetAt).getTime() - windowStart(name, now)) / 1000);
+        return `${usage[name].limit};w=${seconds}`;
+    });
+
+    res.setHeader('RateLimit-Policy', policy.join(', '));
+    res.setHeader('RateLimit-Limit', String(limit));
+    res.setHeader('RateLimit-Remaining', String(remaining));
+    res.setHeader('RateLimit-Reset', String(secondsUntil(resetAt, now)));
+}
+
+/**
+ * Reject a request that would exceed one of the caller's quota windows
+ */
+export function sendQuotaExceeded(req: Request, res: Response, record: ApiKeyRecord | null, result: QuotaResult, credits: number) {
+    const window = result.exceeded as QuotaWindow;
+    const { limit, remaining, resetAt } = result.usage[window];
+    const now = Date.now();
+    const retryAfter = Math.max(secondsUntil(resetAt, now), 1);
+    const label = TIER_LABELS[record?.tier || 'free_user'] || 'This key';
+
+    setRateLimitHeaders(res, result.usage, window, now);
+    sendErrorResponse(
+        res,
+        ErrorCode.RATE_LIMIT,
+        `Rate limit exceeded. ${label} are limited to ${limit} credits per ${window}.`,
+        ensureRequestId(req),
+        {
+            window,
+            limit,
+            creditsRequired: credits,
+            creditsRemaining: remaining,
+            resetAt,
+            retryAfter
+        }
+    );
+}
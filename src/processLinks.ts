@@ -1,9 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { browserManager } from './browserManager';
-import { requestQueue } from './utils/requestQueue';
 import { disposeDom, cleanupResources } from './utils/memory';
 import { navigateToPage } from './utils/pageNavigation';
-import { ErrorCode, sendErrorResponse, parseError } from './utils/errorHandler';
+import { ApiError, ErrorCode, sendErrorResponse, parseError } from './utils/errorHandler';
+import { Job, JobContext, JobOptions, JobRequest, cancelJob, registerJobRunner, sendJobResult, startJob, waitForJob } from './utils/jobs';
+import { getCallbackUrl } from './utils/webhooks';
+import { getCreditSummary, refundCredits } from './utils/credits';
+import { WaitHook, withHostSlot } from './utils/hostPoliteness';
 import { JSDOM } from 'jsdom';
 import { Readability } from '@mozilla/readability';
 import TurndownService from 'turndown';
@@ -236,129 +239,163 @@ function cleanText(text: string): string {
 }
 
 /**
- * Primary route handler for processing web links
+ * Validate a single-page scrape request and start it as a job.
+ * Throws an ApiError when the URL is missing or invalid, or a QueueRejectedError when the queue is full.
  */
-export const processWebsite = router.post('/api/processLinks', async (req: Request, res: Response) => {
-  // Generate a unique request ID
-  const requestId = Date.now().toString(36) + Math.random().toString(36).substring(2, 7);
+export function startScrapeJob(req: Request, options: JobOptions = {}): Job {
+  // Reuse the request ID assigned during authorization so logs match the audit trail
+  const requestId = req.requestId || Date.now().toString(36) + Math.random().toString(36).substring(2, 7);
+  req.requestId = requestId;
   
   // Extract URL from request
   let { url } = req.body;
+  const tenant = req.user?.tenant;
   
-  logger.info(`[${requestId}] Processing request for: ${url}`);
-  
-  // Validate input
-  if (!url) {
-    return sendErrorResponse(
-      res,
-      ErrorCode.MISSING_PARAM,
-      'URL is required',
-      requestId
-    );
-  }
+  logger.info(`[${requestId}] Processing request for: ${url}${tenant ? ` (tenant ${tenant})` : ''}`);
   
-  // Normalize URL
-  if (!url.startsWith('http://') && !url.startsWith('https://')) {
-    url = `https://${url}`;
-    logger.debug(`[${requestId}] Normalized URL to: ${url}`);
-  }
-  
-  // Validate URL format
-  if (!validator.isURL(url, { require_protocol: true })) {
-    return sendErrorResponse(
-      res,
-      ErrorCode.INVALID_URL,
-      'Invalid URL format',
-      requestId
-    );
+  try {
+    // Validate input
+    if (!url) {
+      throw new ApiError(ErrorCode.MISSING_PARAM, 'URL is required');
+    }
+    
+    // Normalize URL
+    if (!url.startsWith('http://') && !url.startsWith('https://')) {
+      url = `https://${url}`;
+      logger.debug(`[${requestId}] Normalized URL to: ${url}`);
+    }
+    
+    // Validate URL format
+    if (!validator.isURL(url, { require_protocol: true })) {
+      throw new ApiError(ErrorCode.INVALID_URL, 'Invalid URL format');
+    }
+    
+    const callbackUrl = getCallbackUrl(req.body);
+    
+    return startJob(req, 'scrape', url, {
+      timeout: GLOBAL_REQUEST_TIMEOUT,
+      callbackUrl,
+      // A failed or cancelled scrape delivers nothing, so nothing it reserved is charged
+      onFailed: () => refundCredits(req, req.credits?.reserved ?? 0),
+      ...options
+    });
+  } catch (error) {
+    // Nothing will be scraped, so the request is not charged
+    refundCredits(req, req.credits?.reserved ?? 0);
+    throw error;
   }
-  
-  // Use AbortController for task cancellation
-  const abortController = new AbortController();
-  
-  // Set up global timeout
-  const timeoutId = setTimeout(() => {
-    abortController.abort();
-    sendErrorResponse(
-      res,
-      ErrorCode.TIMEOUT,
-      `Request exceeded global timeout of ${GLOBAL_REQUEST_TIMEOUT}ms`,
-      requestId
-    );
-  }, GLOBAL_REQUEST_TIMEOUT);
+}
+
+/**
+ * Scrape a single page; the job already holds a request queue slot. Resolves with the response body.
+ */
+async function runScrape(req: JobRequest, context: JobContext): Promise<any> {
+  const { requestId, url } = context.job;
   
   try {
-    // Add to request queue with rate limiting
-    const result = await requestQueue.enqueue(requestId, async () => {
-      // Check if already aborted
-      if (abortController.signal.aborted) {
-        throw new Error('Request aborted');
-      }
-      
-      // Process with retries
-      return await processWithRetry(url, requestId, MAX_RETRIES);
+    // Cancelled or timed out while waiting in the queue
+    if (context.signal.aborted) {
+      throw new Error('Request aborted');
+    }
+    context.started();
+    context.setProgress({ stage: 'scraping' });
+    
+    // Process with retries; cancellation, timeout or a client disconnect closes the page.
+    // Waiting for a busy host gives up the queue slot so other hosts are not held up.
+    const result = await processWithRetry(url, requestId, MAX_RETRIES, {
+      signal: context.signal,
+      suspend: context.suspend
     });
     
-    // Clear timeout as request completed
-    clearTimeout(timeoutId);
+    context.setProgress({ stage: 'done', completed: 1 });
+    logger.info(`[${requestId}] Request completed successfully`);
     
     // Transform the result to match the simplified format
-    const processResult = {
+    return {
       success: true,
       message: 'Successfully processed website',
       url: url,
       requestId,
+      tenant: req.user?.tenant,
       timestamp: Date.now(),
       metadata: result.metadata,
       mainContent: result.mainContent,
       content: result.content,
-      all_urls: result.all_urls
+      all_urls: result.all_urls,
+      // Only returned when the raw_html feature was requested and granted
+      rawHtml: req.features?.granted.includes('raw_html') ? result.rawHtml : undefined,
+      deniedFeatures: req.features?.denied || [],
+      ...getCreditSummary(req)
     };
-    
-    // Send success response
-    res.status(200).json(processResult);
-    
-    logger.info(`[${requestId}] Request completed successfully`);
-  } catch (error) {
-    // Clear timeout
-    clearTimeout(timeoutId);
-    
-    // Only send error response if we haven't already
-    if (!abortController.signal.aborted) {
-      const parsedError = parseError(error);
-      sendErrorResponse(
-        res,
-        parsedError.code,
-        parsedError.message,
-        requestId,
-        parsedError.details
-      );
-    }
   } finally {
     // Clean up resources
     cleanupResources(requestId);
   }
+}
+
+registerJobRunner('scrape', runScrape);
+
+/**
+ * Primary route handler for processing web links. Runs a scrape job and waits for it,
+ * so the response is sent exactly once whether the job succeeds, fails or times out.
+ */
+export const processWebsite = router.post('/api/processLinks', async (req: Request, res: Response) => {
+  let job: Job;
+  try {
+    job = startScrapeJob(req, { retain: false });
+  } catch (error) {
+    const parsedError = parseError(error);
+    return sendErrorResponse(res, parsedError.code, parsedError.message, req.requestId as string, parsedError.details);
+  }
+  
+  // The client gave up, so stop the scrape. Node emits the request's 'close' once its body has
+  // been read, so the response's 'close' before it has been sent is what marks a disconnect.
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      cancelJob(job.id);
+    }
+  });
+  
+  sendJobResult(res, await waitForJob(job));
 });
 
 /**
- * Process a URL with retry capability
+ * How a page load is run: `signal` stops it and closes the page, `onStart` is called each
+ * time an attempt gets its host slot, and `suspend` wraps the wait for that slot
+ */
+export interface PageLoadOptions {
+  signal?: AbortSignal;
+  onStart?: () => void;
+  suspend?: WaitHook;
+}
+
+/**
+ * Process a URL with retry capability. Once the signal is aborted no further attempt is made
+ * and the page in use is closed.
  */
 async function processWithRetry(
   url: string, 
   requestId: string, 
-  maxRetries: number
+  maxRetries: number,
+  options: PageLoadOptions = {}
 ): Promise<any> {
+  const { signal } = options;
   let lastError: Error | null = null;
   
   for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
     try {
+      signal?.throwIfAborted();
       logger.info(`[${requestId}] Processing attempt ${attempt}/${maxRetries + 1}`);
       
       // Process the URL and return result
-      const result = await processUrl(url, requestId);
+      const result = await processUrl(url, requestId, options);
       return result;
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
+      if (signal?.aborted) {
+        logger.info(`[${requestId}] Aborted on attempt ${attempt}`);
+        throw lastError;
+      }
       logger.error(`[${requestId}] Attempt ${attempt} failed: ${lastError.message}`);
       
       // Only retry if we have attempts left
@@ -376,10 +413,11 @@ async function processWithRetry(
 }
 
 /**
- * Process a single URL to extract content
+ * Process a single URL to extract content, within the target host's politeness limits
  */
-async function processUrl(url: string, requestId: string): Promise<any> {
-  return await browserManager.withPage(async (page) => {
+async function processUrl(url: string, requestId: string, { signal, onStart, suspend }: PageLoadOptions = {}): Promise<any> {
+  return await withHostSlot(url, requestId, () => browserManager.withPage(async (page) => {
+    onStart?.();
     let dom: JSDOM | null = null;
 
     console.log("jsut logging using normal method: running processUrl for url: ", url)
@@ -391,7 +429,8 @@ async function processUrl(url: string, requestId: string): Promise<any> {
       const navigationSuccess = await navigateToPage(page, url, {
         waitUntil: 'domcontentloaded',
         timeout: PAGE_NAVIGATION_TIMEOUT,
-        requestId
+        requestId,
+        signal
       });
       
       if (!navigationSuccess) {
@@ -880,7 +919,8 @@ async function processUrl(url: string, requestId: string): Promise<any> {
         content: markdownContent,
         mainContent: cleanedTextContent,
         footer: footerData,
-        all_urls: allUrls
+        all_urls: allUrls,
+        rawHtml: pageContent
       };
     } finally {
       // Ensure DOM is properly disposed to prevent memory leaks
@@ -888,7 +928,7 @@ async function processUrl(url: string, requestId: string): Promise<any> {
         disposeDom(dom);
       }
     }
-  });
+  }, signal), signal, suspend);
 }
 
 function getNavigationData() {
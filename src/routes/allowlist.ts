@@ -0,0 +1,236 @@
+import express from 'express';
+import winston from 'winston';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { DEFAULT_TENANT } from '../utils/tenantStore';
+import { ApiKeyRecord, Tier, getApiKey, isTier } from '../utils/apiKeyStore';
+import { isOperator } from '../middleware/apiKeyAuth';
+import {
+    BLACKLIST_RULE_TYPES,
+    BlacklistRule,
+    createBlacklistRule,
+    isBlacklistRuleType,
+    matchesBlacklistRule
+} from '../utils/blacklistRules';
+import { writeFileAtomic } from '../utils/atomicWrite';
+
+const router = express.Router();
+const logger = winston.createLogger({
+    level: 'debug',
+    format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+    ),
+    defaultMeta: { service: 'allowlist-router' },
+    transports: [
+        new winston.transports.Console({
+            format: winston.format.combine(
+                winston.format.colorize(),
+                winston.format.simple()
+            )
+        })
+    ]
+});
+
+/**
+ * Who an allowlist entry applies to: every key in the tenant, one tier or a single key
+ */
+export type AllowlistScope =
+    | { kind: 'all' }
+    | { kind: 'tier', tier: Tier }
+    | { kind: 'key', keyId: string };
+
+/**
+ * A domain rule (same types as the blacklist) that a scope of keys may scrape
+ */
+export interface AllowlistEntry extends BlacklistRule {
+    id: string;
+    scope: AllowlistScope;
+    reason?: string;
+    addedBy?: { keyId: string, userKey: string };
+    createdAt: string;
+}
+
+// When enabled, any domain not allowlisted for the caller is denied
+export const ALLOWLIST_ONLY = process.env.ALLOWLIST_ONLY === 'true';
+
+// Store allowlist entries in a JSON file
+const ALLOWLIST_FILE = path.join(__dirname, '../../data/allowlist.json');
+
+// Ensure data directory exists
+if (!fs.existsSync(path.dirname(ALLOWLIST_FILE))) {
+    fs.mkdirSync(path.dirname(ALLOWLIST_FILE), { recursive: true });
+}
+
+// Allowlist entries per tenant; the default tenant's entries apply to every tenant
+const allowlists = new Map<string, AllowlistEntry[]>();
+
+// Initialize allowlist from file
+try {
+    const data = JSON.parse(fs.readFileSync(ALLOWLIST_FILE, 'utf8')) as Record<string, AllowlistEntry[]>;
+    Object.entries(data).forEach(([tenant, entries]) => allowlists.set(tenant, entries));
+} catch (error) {
+    // No allowlist yet; the file is written on the first change
+    allowlists.set(DEFAULT_TENANT, []);
+}
+
+// Save allowlist to file
+const saveAllowlist = () => {
+    writeFileAtomic(ALLOWLIST_FILE, JSON.stringify(Object.fromEntries(allowlists)));
+};
+
+// Operators may act on any tenant's list; everyone else only on their own
+const resolveTenant = (req: express.Request): string => {
+    const requested = (req.body?.tenant || req.query.tenant) as string | undefined;
+    if (requested && isOperator(req.apiKey)) {
+        return requested;
+    }
+    return req.user?.tenant || DEFAULT_TENANT;
+};
+
+const appliesTo = (scope: AllowlistScope, record: ApiKeyRecord): boolean => {
+    switch (scope.kind) {
+        case 'tier':
+            return scope.tier === record.tier;
+        case 'key':
+            return scope.keyId === record.id;
+        case 'all':
+        default:
+            return true;
+    }
+};
+
+// Entries that can apply to keys in a tenant: the global list plus the tenant's own
+const getApplicableEntries = (tenant: string): (AllowlistEntry & { tenant: string })[] => {
+    const tenants = tenant === DEFAULT_TENANT ? [DEFAULT_TENANT] : [DEFAULT_TENANT, tenant];
+    return tenants.flatMap(entryTenant =>
+        (allowlists.get(entryTenant) || []).map(entry => ({ ...entry, tenant: entryTenant }))
+    );
+};
+
+// Build a scope from a request body, or return an error message
+const parseScope = (body: any, tenant: string): AllowlistScope | string => {
+    const kind = body.scope || 'all';
+
+    if (kind === 'all') {
+        return { kind: 'all' };
+    }
+
+    if (kind === 'tier') {
+        return isTier(body.tier) ? { kind: 'tier', tier: body.tier } : 'Tier must be one of admin, pro_user, free_user';
+    }
+
+    if (kind === 'key') {
+        const record = typeof body.keyId === 'string' ? getApiKey(body.keyId) : null;
+        // Keys from other tenants are reported as missing
+        if (!record || (tenant !== DEFAULT_TENANT && record.tenant !== tenant)) {
+            return 'keyId must be an existing API key in this tenant';
+        }
+        return { kind: 'key', keyId: record.id };
+    }
+
+    return "Scope must be one of 'all', 'tier', 'key'";
+};
+
+// Get the allowlist entries that apply to the caller's tenant,
+// or check a single domain for the caller's key with ?domain=
+router.get('/', (req, res) => {
+    try {
+        const tenant = resolveTenant(req);
+        const { domain } = req.query;
+
+        if (typeof domain === 'string' && domain && req.apiKey) {
+            const hostname = domain.trim().replace(/^https?:\/\//i, '').split(/[/?#]/)[0];
+            const match = findAllowlistEntry(hostname, req.apiKey);
+            return res.json({ domain: hostname, allowlistOnly: ALLOWLIST_ONLY, allowlisted: !!match, entry: match });
+        }
+
+        res.json(getApplicableEntries(tenant));
+    } catch (error) {
+        logger.error('Error fetching allowlist:', error);
+        res.status(500).json({ error: 'Failed to fetch allowlist' });
+    }
+});
+
+// Add a domain rule for everyone in the tenant, a tier (scope: 'tier', tier) or a key (scope: 'key', keyId)
+router.post('/', (req, res) => {
+    const { domain, type, reason } = req.body;
+
+    if (!domain || typeof domain !== 'string') {
+        return res.status(400).json({ error: 'Domain is required' });
+    }
+
+    if (type !== undefined && !isBlacklistRuleType(type)) {
+        return res.status(400).json({ error: `Rule type must be one of ${BLACKLIST_RULE_TYPES.join(', ')}` });
+    }
+
+    let rule: BlacklistRule;
+    try {
+        rule = createBlacklistRule(domain, type);
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+
+    const tenant = resolveTenant(req);
+    const scope = parseScope(req.body, tenant);
+    if (typeof scope === 'string') {
+        return res.status(400).json({ error: scope });
+    }
+
+    try {
+        const entry: AllowlistEntry = {
+            id: crypto.randomBytes(6).toString('hex'),
+            ...rule,
+            scope,
+            reason: typeof reason === 'string' ? reason : undefined,
+            addedBy: req.apiKey ? { keyId: req.apiKey.id, userKey: req.apiKey.userKey } : undefined,
+            createdAt: new Date().toISOString()
+        };
+
+        const entries = allowlists.get(tenant) || [];
+        entries.push(entry);
+        allowlists.set(tenant, entries);
+        saveAllowlist();
+        logger.info(`Allowlisted ${entry.type} ${entry.pattern} for ${scope.kind} in tenant ${tenant}`);
+        res.status(201).json({ success: true, tenant, entry });
+    } catch (error) {
+        logger.error('Error adding to allowlist:', error);
+        res.status(500).json({ error: 'Failed to add domain to allowlist' });
+    }
+});
+
+// Remove an allowlist entry by id
+router.delete('/:id', (req, res) => {
+    try {
+        const tenant = resolveTenant(req);
+        const entries = allowlists.get(tenant) || [];
+        const index = entries.findIndex(entry => entry.id === req.params.id);
+
+        if (index === -1) {
+            return res.status(404).json({ error: 'Allowlist entry not found' });
+        }
+
+        entries.splice(index, 1);
+        saveAllowlist();
+        res.json({ success: true });
+    } catch (error) {
+        logger.error('Error removing from allowlist:', error);
+        res.status(500).json({ error: 'Failed to remove domain from allowlist' });
+    }
+});
+
+/**
+ * Find the first allowlist entry covering a hostname for a key
+ */
+export const findAllowlistEntry = (hostname: string, record: ApiKeyRecord): (AllowlistEntry & { tenant: string }) | null => {
+    return getApplicableEntries(record.tenant)
+        .find(entry => appliesTo(entry.scope, record) && matchesBlacklistRule(hostname, entry)) || null;
+};
+
+// Check if a hostname is allowlisted for a key
+export const isAllowlisted = (hostname: string, record: ApiKeyRecord): boolean => {
+    return findAllowlistEntry(hostname, record) !== null;
+};
+
+export default router;
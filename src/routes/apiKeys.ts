@@ -0,0 +1,192 @@
+import express from 'express';
+import winston from 'winston';
+import validator from 'validator';
+import {
+    ApiKeyRecord,
+    createApiKey,
+    getApiKey,
+    isTier,
+    listApiKeys,
+    revokeApiKey,
+    rotateApiKey,
+    setApiKeyQuotas,
+    toPublicApiKey
+} from '../utils/apiKeyStore';
+import { getQuotaLimits, validateQuotaLimits } from '../utils/quota';
+import { DEFAULT_TENANT, getTenant } from '../utils/tenantStore';
+import { isOperator } from '../middleware/apiKeyAuth';
+
+const router = express.Router();
+const logger = winston.createLogger({
+    level: 'debug',
+    format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+    ),
+    defaultMeta: { service: 'api-keys-router' },
+    transports: [
+        new winston.transports.Console({
+            format: winston.format.combine(
+                winston.format.colorize(),
+                winston.format.simple()
+            )
+        })
+    ]
+});
+
+// Operators manage keys across tenants; tenant admins only see their own tenant's keys
+const canManage = (req: express.Request, record: ApiKeyRecord): boolean => {
+    return isOperator(req.apiKey) || record.tenant === req.apiKey?.tenant;
+};
+
+// List API keys, optionally filtered by prefix and ordered by last use
+router.get('/', (req, res) => {
+    const { prefix, sort, tenant } = req.query;
+
+    try {
+        let records = listApiKeys().filter(record => canManage(req, record));
+        if (typeof tenant === 'string' && tenant) {
+            records = records.filter(record => record.tenant === tenant);
+        }
+        if (typeof prefix === 'string' && prefix) {
+            records = records.filter(record => record.prefix.startsWith(prefix.replace(/^sb_/, '')));
+        }
+        if (sort === 'lastUsed') {
+            records = [...records].sort((a, b) => (b.lastUsedAt || '').localeCompare(a.lastUsedAt || ''));
+        }
+        res.json(records.map(toPublicApiKey));
+    } catch (error) {
+        logger.error('Error listing API keys:', error);
+        res.status(500).json({ error: 'Failed to list API keys' });
+    }
+});
+
+// Issue a new API key
+router.post('/', (req, res) => {
+    const { tier, ownerEmail, userKey, expiresAt, quotas } = req.body;
+    // Only operators may issue keys for another tenant
+    const tenant: string = isOperator(req.apiKey) && req.body.tenant
+        ? req.body.tenant
+        : req.apiKey?.tenant || DEFAULT_TENANT;
+
+    if (!isTier(tier)) {
+        return res.status(400).json({ error: 'Tier must be one of admin, pro_user, free_user' });
+    }
+
+    // Tenant admins issue pro and free keys; admin keys and quota overrides need an operator
+    if (tier === 'admin' && !isOperator(req.apiKey)) {
+        return res.status(403).json({ error: 'Operator access required to issue admin keys' });
+    }
+
+    if (quotas !== undefined && !isOperator(req.apiKey)) {
+        return res.status(403).json({ error: 'Operator access required to override quotas' });
+    }
+
+    if (!ownerEmail || !validator.isEmail(ownerEmail)) {
+        return res.status(400).json({ error: 'A valid ownerEmail is required' });
+    }
+
+    if (expiresAt && isNaN(Date.parse(expiresAt))) {
+        return res.status(400).json({ error: 'expiresAt must be an ISO date' });
+    }
+
+    if (!getTenant(tenant)) {
+        return res.status(400).json({ error: `Unknown tenant: ${tenant}` });
+    }
+
+    const quotaError = quotas !== undefined ? validateQuotaLimits(quotas) : null;
+    if (quotaError) {
+        return res.status(400).json({ error: quotaError });
+    }
+
+    try {
+        const issued = createApiKey({
+            tier,
+            tenant,
+            ownerEmail,
+            userKey,
+            expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+            quotas
+        });
+        // The full key is only returned once, at creation time
+        res.status(201).json({ success: true, apiKey: issued.apiKey, record: toPublicApiKey(issued.record) });
+    } catch (error) {
+        logger.error('Error creating API key:', error);
+        res.status(500).json({ error: 'Failed to create API key' });
+    }
+});
+
+// Rotate the secret of an existing key
+router.post('/:id/rotate', (req, res) => {
+    const { id } = req.params;
+
+    const existing = getApiKey(id);
+    if (!existing || !canManage(req, existing)) {
+        return res.status(404).json({ error: 'API key not found or revoked' });
+    }
+
+    try {
+        const issued = rotateApiKey(id);
+        if (!issued) {
+            return res.status(404).json({ error: 'API key not found or revoked' });
+        }
+        res.json({ success: true, apiKey: issued.apiKey, record: toPublicApiKey(issued.record) });
+    } catch (error) {
+        logger.error('Error rotating API key:', error);
+        res.status(500).json({ error: 'Failed to rotate API key' });
+    }
+});
+
+// Override quota windows for a key, e.g. { "day": 1000, "month": null }; an empty object restores the tier defaults.
+// Operators only, since overrides can lift a key past its tenant's limits.
+router.put('/:id/quotas', (req, res) => {
+    const { id } = req.params;
+
+    if (!isOperator(req.apiKey)) {
+        return res.status(403).json({ error: 'Operator access required to override quotas' });
+    }
+
+    const existing = getApiKey(id);
+    if (!existing || !canManage(req, existing)) {
+        return res.status(404).json({ error: 'API key not found' });
+    }
+
+    const quotaError = validateQuotaLimits(req.body);
+    if (quotaError) {
+        return res.status(400).json({ error: quotaError });
+    }
+
+    try {
+        const record = setApiKeyQuotas(id, req.body);
+        if (!record) {
+            return res.status(404).json({ error: 'API key not found' });
+        }
+        res.json({ success: true, record: toPublicApiKey(record), limits: getQuotaLimits(record) });
+    } catch (error) {
+        logger.error('Error updating API key quotas:', error);
+        res.status(500).json({ error: 'Failed to update API key quotas' });
+    }
+});
+
+// Revoke an API key
+router.delete('/:id', (req, res) => {
+    const { id } = req.params;
+
+    const existing = getApiKey(id);
+    if (!existing || !canManage(req, existing)) {
+        return res.status(404).json({ error: 'API key not found' });
+    }
+
+    try {
+        const record = revokeApiKey(id);
+        if (!record) {
+            return res.status(404).json({ error: 'API key not found' });
+        }
+        res.json({ success: true, record: toPublicApiKey(record) });
+    } catch (error) {
+        logger.error('Error revoking API key:', error);
+        res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+});
+
+export default router;
@@ -0,0 +1,72 @@
+import express from 'express';
+import winston from 'winston';
+import { AuditQuery, auditToCsv, queryAudit } from '../utils/auditLog';
+import { isOperator } from '../middleware/apiKeyAuth';
+
+const router = express.Router();
+const logger = winston.createLogger({
+    level: 'debug',
+    format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+    ),
+    defaultMeta: { service: 'audit-router' },
+    transports: [
+        new winston.transports.Console({
+            format: winston.format.combine(
+                winston.format.colorize(),
+                winston.format.simple()
+            )
+        })
+    ]
+});
+
+const parseDate = (value: unknown): Date | undefined | null => {
+    if (typeof value !== 'string' || !value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+// Query authorization decisions, as JSON or CSV
+router.get('/', async (req, res) => {
+    const { user, domain, action, decision, limit, format, tenant } = req.query;
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+
+    if (from === null || to === null) {
+        return res.status(400).json({ error: 'from and to must be ISO dates' });
+    }
+
+    if (decision !== undefined && decision !== 'allow' && decision !== 'deny') {
+        return res.status(400).json({ error: 'decision must be allow or deny' });
+    }
+
+    // Tenant admins only see their own tenant; operators can pick one or see all
+    const query: AuditQuery = {
+        tenant: isOperator(req.apiKey) ? (typeof tenant === 'string' ? tenant : undefined) : req.apiKey?.tenant,
+        user: typeof user === 'string' ? user : undefined,
+        domain: typeof domain === 'string' ? domain : undefined,
+        action: typeof action === 'string' ? action : undefined,
+        decision,
+        from,
+        to,
+        limit: typeof limit === 'string' ? parseInt(limit, 10) || undefined : undefined
+    };
+
+    try {
+        const entries = await queryAudit(query);
+
+        if (format === 'csv') {
+            res.setHeader('Content-Type', 'text/csv');
+            res.setHeader('Content-Disposition', 'attachment; filename="audit.csv"');
+            return res.send(auditToCsv(entries));
+        }
+
+        res.json({ count: entries.length, entries });
+    } catch (error) {
+        logger.error('Error querying audit log:', error);
+        res.status(500).json({ error: 'Failed to query audit log' });
+    }
+});
+
+export default router;
@@ -0,0 +1,171 @@
+import express from 'express';
+import winston from 'winston';
+import { requireApiKey, requireAdmin, isOperator, toPermitUser } from '../middleware/apiKeyAuth';
+import { CRAWL_REQUIRED_FEATURES, PermissionRequest, featureChecks, getHostname, scrapeCheck, scrapeSiteCheck, withRequiredFeatures } from '../middleware/permitAuth';
+import { authzCache } from '../utils/authzCache';
+import { findBlacklistRule } from './blacklist';
+import { ALLOWLIST_ONLY, findAllowlistEntry } from './allowlist';
+import { ApiKeyRecord, getApiKey, resolveApiKey } from '../utils/apiKeyStore';
+import { AuthzCheck, getDecisionEngine, getLocalDecisionEngine } from '../utils/decisionEngine';
+import { FEATURES, getRequestedFeatures } from '../utils/features';
+
+const router = express.Router();
+const logger = winston.createLogger({
+    level: 'debug',
+    format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+    ),
+    defaultMeta: { service: 'authz-router' },
+    transports: [
+        new winston.transports.Console({
+            format: winston.format.combine(
+                winston.format.colorize(),
+                winston.format.simple()
+            )
+        })
+    ]
+});
+
+// Get authorization cache statistics
+router.get('/cache', requireApiKey, requireAdmin, (req, res) => {
+    res.json(authzCache.getStats());
+});
+
+// Flush cached decisions and user syncs, e.g. after a policy change
+router.delete('/cache', requireApiKey, requireAdmin, (req, res) => {
+    try {
+        const flushed = authzCache.flush();
+        res.json({ success: true, flushed });
+    } catch (error) {
+        logger.error('Error flushing authorization cache:', error);
+        res.status(500).json({ error: 'Failed to flush authorization cache' });
+    }
+});
+
+// Why a key is or is not usable, independent of policy
+const getKeyStatus = (record: ApiKeyRecord): 'active' | 'revoked' | 'expired' => {
+    if (record.revoked) return 'revoked';
+    if (record.expiresAt && new Date(record.expiresAt).getTime() <= Date.now()) return 'expired';
+    return 'active';
+};
+
+/**
+ * Explain how a request would be authorized without running it.
+ *
+ * Body: { apiKey | keyId, url?, mode?: 'page' | 'site', advanced?, subpagesCount?, maxDepth?, features? }
+ * Returns the resolved user, every check that would be made, the configured engine's
+ * decision and the local policy trace showing which policy and condition decided it.
+ * Explanations are not recorded in the audit log.
+ */
+router.post('/explain', requireApiKey, requireAdmin, async (req, res) => {
+    const { apiKey, keyId, url, mode = 'page' } = req.body;
+
+    if (!apiKey && !keyId) {
+        return res.status(400).json({ error: 'apiKey or keyId is required' });
+    }
+
+    if (mode !== 'page' && mode !== 'site') {
+        return res.status(400).json({ error: "mode must be 'page' or 'site'" });
+    }
+
+    const record = keyId ? getApiKey(keyId) : resolveApiKey(apiKey);
+    // Tenant admins may only explain keys from their own tenant
+    if (!record || (!isOperator(req.apiKey) && record.tenant !== req.apiKey?.tenant)) {
+        return res.status(404).json({ error: 'API key not found, revoked or expired' });
+    }
+
+    const hostname = url ? getHostname(String(url).trim()) : null;
+    if (url && !hostname) {
+        return res.status(400).json({ error: 'Invalid URL provided' });
+    }
+    if (mode === 'site' && !hostname) {
+        return res.status(400).json({ error: 'URL is required to explain a site crawl' });
+    }
+
+    const { features, unknown } = getRequestedFeatures(req.body);
+    if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown features: ${unknown.join(', ')}` });
+    }
+
+    try {
+        const user = toPermitUser(record);
+
+        // The same checks permitAuth/permitScrapeSite and permitFeatures would make
+        let primary: PermissionRequest | null = null;
+        if (hostname) {
+            primary = mode === 'site'
+                ? scrapeSiteCheck(record, hostname, req.body)
+                : scrapeCheck(record, hostname, req.body);
+        }
+        const checks: AuthzCheck[] = [
+            ...(primary ? [{ action: primary.action, resource: primary.resource }] : []),
+            ...featureChecks(mode === 'site' ? withRequiredFeatures(features, CRAWL_REQUIRED_FEATURES) : features, hostname)
+        ];
+
+        const engine = getDecisionEngine();
+        await engine.syncUser(user);
+        const decisions = await engine.bulkCheck(user, checks, record.tenant);
+        const local = getLocalDecisionEngine();
+
+        const explained = checks.map((check, index) => {
+            const evaluation = local.evaluate(user, check.action, check.resource);
+            const feature = check.resource.type === 'feature' ? check.resource.key : undefined;
+            return {
+                action: check.action,
+                feature,
+                resource: check.resource,
+                allowed: decisions[index].allowed,
+                decision: decisions[index],
+                policy: {
+                    allowed: evaluation.allowed,
+                    policy: evaluation.policy,
+                    reason: evaluation.reason,
+                    // Only policies for this resource, action and role can affect the outcome
+                    policies: evaluation.trace.filter(trace => trace.applicable).map(trace => ({
+                        policy: trace.policy,
+                        effect: trace.effect,
+                        matched: trace.matched,
+                        conditions: trace.conditions,
+                        failedConditions: trace.conditions.filter(condition => !condition.result).map(condition => condition.name)
+                    }))
+                }
+            };
+        });
+
+        res.json({
+            success: true,
+            engine: engine.name,
+            key: {
+                id: record.id,
+                prefix: record.prefix,
+                status: getKeyStatus(record)
+            },
+            user: {
+                key: user.key,
+                email: user.email,
+                tenant: user.tenant,
+                tier: record.tier,
+                roles: user.attributes?.roles || []
+            },
+            isBlacklisted: primary?.isBlacklistedDomain ?? false,
+            blacklistRule: hostname ? findBlacklistRule(hostname, record.tenant) : null,
+            allowlistOnly: ALLOWLIST_ONLY,
+            allowlistEntry: hostname ? findAllowlistEntry(hostname, record) : null,
+            // Allowlist-only mode denies before any policy is consulted
+            allowed: getKeyStatus(record) === 'active' &&
+                !(ALLOWLIST_ONLY && primary?.isAllowlistedDomain === false) &&
+                (primary ? explained[0].allowed : true),
+            checks: explained,
+            deniedFeatures: explained
+                .filter(check => check.feature && !check.allowed)
+                .map(check => check.feature),
+            supportedFeatures: Object.keys(FEATURES)
+        });
+    } catch (error: any) {
+        logger.error('Error explaining authorization:', error);
+        res.status(500).json({ error: 'Failed to explain authorization' });
+    }
+});
+
+export default router;
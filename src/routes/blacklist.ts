@@ -1,7 +1,27 @@
 import express from 'express';
 import winston from 'winston';
-import fs from 'fs';
-import path from 'path';
+import { DEFAULT_TENANT } from '../utils/tenantStore';
+import { isOperator } from '../middleware/apiKeyAuth';
+import {
+    BLACKLIST_RULE_TYPES,
+    BlacklistEntry,
+    BlacklistRule,
+    createBlacklistRule,
+    isBlacklistRuleType,
+    isEntryExpired,
+    matchesBlacklistRule
+} from '../utils/blacklistRules';
+import { getBlacklistHistory, recordBlacklistEvent } from '../utils/blacklistHistory';
+import { createBlacklistStore } from '../utils/blacklistStore';
+import {
+    BlacklistExportFormat,
+    BlacklistImportFormat,
+    EXPORT_FORMATS,
+    IMPORT_FORMATS,
+    ImportLineError,
+    exportBlacklist,
+    parseBlacklistImport
+} from '../utils/blacklistTransfer';
 
 const router = express.Router();
 const logger = winston.createLogger({
@@ -21,66 +41,328 @@ const logger = winston.createLogger({
     ]
 });
 
-// Store blacklisted domains in a JSON file
-const BLACKLIST_FILE = path.join(__dirname, '../../data/blacklist.json');
-
-// Ensure data directory exists
-if (!fs.existsSync(path.dirname(BLACKLIST_FILE))) {
-    fs.mkdirSync(path.dirname(BLACKLIST_FILE), { recursive: true });
-}
-
-// Initialize blacklist from file or create empty one
-let blacklistedDomains: Set<string>;
-try {
-    const data = fs.readFileSync(BLACKLIST_FILE, 'utf8');
-    blacklistedDomains = new Set(JSON.parse(data));
-} catch (error) {
-    blacklistedDomains = new Set<string>();
-    // Create empty blacklist file
-    fs.writeFileSync(BLACKLIST_FILE, JSON.stringify(Array.from(blacklistedDomains)));
-}
-
-// Save blacklist to file
-const saveBlacklist = () => {
-    fs.writeFileSync(BLACKLIST_FILE, JSON.stringify(Array.from(blacklistedDomains)));
+// Blacklist entries per tenant, keyed by pattern; the default tenant's entries apply to every tenant
+const blacklists = new Map<string, Map<string, BlacklistEntry>>();
+
+// How often expired entries are removed
+const PRUNE_INTERVAL = parseInt(process.env.BLACKLIST_PRUNE_INTERVAL || '60000', 10);
+
+// Persistent storage, selected with BLACKLIST_STORE; lookups are served from memory
+const store = createBlacklistStore();
+
+// Replace the in-memory entries with the stored ones
+const reloadBlacklist = () => {
+    const snapshot = store.load();
+    blacklists.clear();
+    Object.entries(snapshot).forEach(([tenant, entries]) => {
+        blacklists.set(tenant, new Map(entries.map(entry => [entry.pattern, entry])));
+    });
+};
+
+reloadBlacklist();
+
+// Write changes through to the store, then reload so changes other instances made in between are picked up too
+const upsertEntries = (tenant: string, entries: BlacklistEntry[]) => {
+    store.upsert(tenant, entries);
+    reloadBlacklist();
+};
+
+const removeEntries = (tenant: string, patterns: string[]) => {
+    store.remove(tenant, patterns);
+    reloadBlacklist();
+};
+
+// Pick up changes written by other server instances
+store.watch(() => {
+    try {
+        reloadBlacklist();
+        logger.debug(`Reloaded blacklist after a change in the ${store.name} store`);
+    } catch (error) {
+        logger.error('Error reloading blacklist:', error);
+    }
+});
+
+const getTenantBlacklist = (tenant: string): Map<string, BlacklistEntry> => {
+    let entries = blacklists.get(tenant);
+    if (!entries) {
+        entries = new Map();
+        blacklists.set(tenant, entries);
+    }
+    return entries;
 };
 
-// Get all blacklisted domains
+// Operators may act on any tenant's list; everyone else only on their own
+const resolveTenant = (req: express.Request): string => {
+    const requested = (req.body?.tenant || req.query.tenant) as string | undefined;
+    if (requested && isOperator(req.apiKey)) {
+        return requested;
+    }
+    return req.user?.tenant || DEFAULT_TENANT;
+};
+
+// The key and user behind a change, for entry metadata and history
+const getActor = (req: express.Request): { keyId: string, userKey: string } | undefined => {
+    return req.apiKey ? { keyId: req.apiKey.id, userKey: req.apiKey.userKey } : undefined;
+};
+
+// Find a stored pattern; regex patterns keep their case, all other patterns are stored lowercase
+const resolvePattern = (entries: Map<string, BlacklistEntry>, domain: string): string => {
+    return entries.has(domain) ? domain : domain.toLowerCase().replace(/^\/(.*)\/$/, '$1');
+};
+
+/**
+ * Remove entries whose expiry has passed and record an expire event for each
+ */
+export const pruneExpiredEntries = (): number => {
+    const now = Date.now();
+    let pruned = 0;
+
+    Array.from(blacklists.entries()).forEach(([tenant, entries]) => {
+        const expired = Array.from(entries.values()).filter(entry => isEntryExpired(entry, now));
+        if (expired.length === 0) return;
+
+        removeEntries(tenant, expired.map(entry => entry.pattern));
+        expired.forEach(entry => {
+            recordBlacklistEvent({ event: 'expire', tenant, pattern: entry.pattern, entry });
+        });
+        pruned += expired.length;
+    });
+
+    if (pruned > 0) {
+        logger.info(`Pruned ${pruned} expired blacklist entries`);
+    }
+    return pruned;
+};
+
+// Prune in the background; expired entries are already ignored by lookups in between
+setInterval(() => {
+    try {
+        pruneExpiredEntries();
+    } catch (error) {
+        logger.error('Error pruning expired blacklist entries:', error);
+    }
+}, PRUNE_INTERVAL).unref();
+
+// Get all blacklist entries that apply to the caller's tenant,
+// or check a single domain with ?domain= and report the rule that matched
 router.get('/', (req, res) => {
     try {
-        res.json(Array.from(blacklistedDomains));
+        const tenant = resolveTenant(req);
+        const { domain } = req.query;
+
+        if (typeof domain === 'string' && domain) {
+            const hostname = domain.trim().replace(/^https?:\/\//i, '').split(/[/?#]/)[0];
+            const match = findBlacklistRule(hostname, tenant);
+            return res.json({ domain: hostname, tenant, blacklisted: !!match, rule: match });
+        }
+
+        res.json(getBlacklistRules(tenant));
     } catch (error) {
         logger.error('Error fetching blacklist:', error);
         res.status(500).json({ error: 'Failed to fetch blacklist' });
     }
 });
 
-// Add domain to blacklist
+// Export the entries that apply to the caller's tenant as csv (default), json or hosts
+router.get('/export', (req, res) => {
+    const format = (req.query.format || 'csv') as BlacklistExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Format must be one of ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    try {
+        const tenant = resolveTenant(req);
+        const body = exportBlacklist(getBlacklistRules(tenant), format);
+        const contentType = format === 'json' ? 'application/json' : format === 'csv' ? 'text/csv' : 'text/plain';
+        const extension = format === 'hosts' ? 'txt' : format;
+
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="blacklist-${tenant}.${extension}"`);
+        res.send(body);
+    } catch (error) {
+        logger.error('Error exporting blacklist:', error);
+        res.status(500).json({ error: 'Failed to export blacklist' });
+    }
+});
+
+// Get the change history of a pattern in the caller's tenant
+router.get('/:domain/history', async (req, res) => {
+    try {
+        const tenant = resolveTenant(req);
+        const pattern = resolvePattern(getTenantBlacklist(tenant), req.params.domain);
+        const events = await getBlacklistHistory(tenant, pattern);
+
+        if (events.length === 0) {
+            return res.status(404).json({ error: 'No history found for this domain' });
+        }
+        res.json({ domain: pattern, tenant, events });
+    } catch (error) {
+        logger.error('Error fetching blacklist history:', error);
+        res.status(500).json({ error: 'Failed to fetch blacklist history' });
+    }
+});
+
+// Add or update a rule in the caller's tenant blacklist; the type is inferred from the pattern when omitted
 router.post('/', (req, res) => {
-    const { domain } = req.body;
+    const { domain, type, reason, expiresAt } = req.body;
     
-    if (!domain) {
+    if (!domain || typeof domain !== 'string') {
         return res.status(400).json({ error: 'Domain is required' });
     }
 
+    if (type !== undefined && !isBlacklistRuleType(type)) {
+        return res.status(400).json({ error: `Rule type must be one of ${BLACKLIST_RULE_TYPES.join(', ')}` });
+    }
+
+    if (reason !== undefined && typeof reason !== 'string') {
+        return res.status(400).json({ error: 'Reason must be a string' });
+    }
+
+    if (expiresAt && (isNaN(Date.parse(expiresAt)) || Date.parse(expiresAt) <= Date.now())) {
+        return res.status(400).json({ error: 'expiresAt must be an ISO date in the future' });
+    }
+
+    let rule: BlacklistRule;
+    try {
+        rule = createBlacklistRule(domain, type);
+    } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+    }
+
     try {
-        blacklistedDomains.add(domain.toLowerCase());
-        saveBlacklist();
-        res.json({ success: true, domain });
+        const tenant = resolveTenant(req);
+        const entries = getTenantBlacklist(tenant);
+        const existing = entries.get(rule.pattern);
+        const now = new Date().toISOString();
+
+        // Re-posting a pattern edits it, keeping the original author and creation time
+        const entry: BlacklistEntry = existing
+            ? {
+                ...existing,
+                ...rule,
+                reason: reason ?? existing.reason,
+                expiresAt: expiresAt !== undefined ? (expiresAt ? new Date(expiresAt).toISOString() : null) : existing.expiresAt,
+                updatedAt: now
+            }
+            : {
+                ...rule,
+                reason,
+                addedBy: getActor(req),
+                createdAt: now,
+                expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null
+            };
+
+        upsertEntries(tenant, [entry]);
+        recordBlacklistEvent({ event: existing ? 'edit' : 'add', tenant, pattern: rule.pattern, actor: getActor(req), entry });
+        res.json({ success: true, domain: rule.pattern, type: rule.type, tenant, entry });
     } catch (error) {
         logger.error('Error adding to blacklist:', error);
         res.status(500).json({ error: 'Failed to add domain to blacklist' });
     }
 });
 
-// Remove domain from blacklist
+/**
+ * Import many entries at once. The body is either raw text (newline list, CSV or hosts file)
+ * or JSON: an array of entries, `{ "entries": [...] }` or `{ "content": "...", "format": "..." }`.
+ * `?format=` overrides detection and `?dryRun=true` reports what would change without saving.
+ * Patterns already in the list are reported as duplicates and left unchanged.
+ */
+router.post('/import', express.text({ type: ['text/*', 'application/csv'], limit: '5mb' }), (req, res) => {
+    const format = (req.query.format || req.body?.format) as BlacklistImportFormat | undefined;
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === true;
+
+    if (format !== undefined && !IMPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Format must be one of ${IMPORT_FORMATS.join(', ')}` });
+    }
+
+    let content: string | unknown[];
+    if (typeof req.body === 'string') {
+        content = req.body;
+    } else if (Array.isArray(req.body)) {
+        content = req.body;
+    } else if (Array.isArray(req.body?.entries)) {
+        content = req.body.entries;
+    } else if (typeof req.body?.content === 'string') {
+        content = req.body.content;
+    } else {
+        return res.status(400).json({ error: 'Import content is required' });
+    }
+
+    try {
+        const tenant = resolveTenant(req);
+        const entries = getTenantBlacklist(tenant);
+        const parsed = parseBlacklistImport(content, format);
+        const invalid: ImportLineError[] = [...parsed.errors];
+        const duplicates: string[] = [];
+        const toAdd = new Map<string, BlacklistEntry>();
+        const now = new Date().toISOString();
+
+        for (const row of parsed.rows) {
+            let rule: BlacklistRule;
+            try {
+                rule = createBlacklistRule(row.domain, row.type);
+            } catch (error: any) {
+                invalid.push({ line: row.line, input: row.input, error: error.message });
+                continue;
+            }
+
+            if (row.expiresAt && isNaN(Date.parse(row.expiresAt))) {
+                invalid.push({ line: row.line, input: row.input, error: `Invalid expiresAt: ${row.expiresAt}` });
+                continue;
+            }
+
+            if (entries.has(rule.pattern) || toAdd.has(rule.pattern)) {
+                duplicates.push(rule.pattern);
+                continue;
+            }
+
+            toAdd.set(rule.pattern, {
+                ...rule,
+                reason: row.reason,
+                addedBy: getActor(req),
+                createdAt: now,
+                expiresAt: row.expiresAt ? new Date(row.expiresAt).toISOString() : null
+            });
+        }
+
+        if (!dryRun && toAdd.size > 0) {
+            upsertEntries(tenant, Array.from(toAdd.values()));
+            toAdd.forEach((entry, pattern) => {
+                recordBlacklistEvent({ event: 'add', tenant, pattern, actor: getActor(req), entry });
+            });
+            logger.info(`Imported ${toAdd.size} blacklist entries into tenant ${tenant}`);
+        }
+
+        invalid.sort((a, b) => a.line - b.line);
+        res.json({
+            success: true,
+            dryRun,
+            format: parsed.format,
+            tenant,
+            added: Array.from(toAdd.keys()),
+            duplicates,
+            invalid,
+            summary: { added: toAdd.size, duplicates: duplicates.length, invalid: invalid.length }
+        });
+    } catch (error) {
+        logger.error('Error importing blacklist:', error);
+        res.status(500).json({ error: 'Failed to import blacklist' });
+    }
+});
+
+// Remove a rule from the caller's tenant blacklist by its pattern
 router.delete('/:domain', (req, res) => {
     const { domain } = req.params;
 
     try {
-        const success = blacklistedDomains.delete(domain.toLowerCase());
-        if (success) {
-            saveBlacklist();
+        const tenant = resolveTenant(req);
+        const entries = getTenantBlacklist(tenant);
+        const pattern = resolvePattern(entries, domain);
+        const entry = entries.get(pattern);
+        if (entry) {
+            removeEntries(tenant, [pattern]);
+            recordBlacklistEvent({ event: 'remove', tenant, pattern, actor: getActor(req), entry });
             res.json({ success: true });
         } else {
             res.status(404).json({ error: 'Domain not found in blacklist' });
@@ -91,14 +373,40 @@ router.delete('/:domain', (req, res) => {
     }
 });
 
-// Check if a domain is blacklisted
-export const isBlacklisted = (domain: string): boolean => {
-    return blacklistedDomains.has(domain.toLowerCase());
+/**
+ * Find the first rule blocking a hostname, checking the global rules before the tenant's
+ */
+export const findBlacklistRule = (
+    hostname: string,
+    tenant: string = DEFAULT_TENANT
+): (BlacklistEntry & { tenant: string }) | null => {
+    const tenants = tenant === DEFAULT_TENANT ? [DEFAULT_TENANT] : [DEFAULT_TENANT, tenant];
+    const now = Date.now();
+    for (const ruleTenant of tenants) {
+        for (const entry of blacklists.get(ruleTenant)?.values() || []) {
+            // Expired entries stop matching immediately, before the background prune removes them
+            if (!isEntryExpired(entry, now) && matchesBlacklistRule(hostname, entry)) {
+                return { ...entry, tenant: ruleTenant };
+            }
+        }
+    }
+    return null;
+};
+
+// Check if a domain is blacklisted globally or for the given tenant
+export const isBlacklisted = (domain: string, tenant: string = DEFAULT_TENANT): boolean => {
+    return findBlacklistRule(domain, tenant) !== null;
 };
 
-// Get all blacklisted domains
-export const getBlacklistedDomains = (): string[] => {
-    return Array.from(blacklistedDomains);
+// Get all unexpired blacklist entries that apply to a tenant
+export const getBlacklistRules = (tenant: string = DEFAULT_TENANT): (BlacklistEntry & { tenant: string })[] => {
+    const tenants = tenant === DEFAULT_TENANT ? [DEFAULT_TENANT] : [DEFAULT_TENANT, tenant];
+    const now = Date.now();
+    return tenants.flatMap(ruleTenant =>
+        Array.from(blacklists.get(ruleTenant)?.values() || [])
+            .filter(entry => !isEntryExpired(entry, now))
+            .map(entry => ({ ...entry, tenant: ruleTenant }))
+    );
 };
 
-export default router; 
\ No newline at end of file
+export default router; 
@@ -0,0 +1,109 @@
+import express from 'express';
+import winston from 'winston';
+import { ApiKeyRecord } from '../utils/apiKeyStore';
+import { isOperator } from '../middleware/apiKeyAuth';
+import { parseError, sendErrorResponse } from '../utils/errorHandler';
+import { Job, cancelJob, getJob } from '../utils/jobs';
+import { startScrapeJob } from '../processLinks';
+import { startCrawlJob } from './processWebsite';
+
+const router = express.Router();
+const logger = winston.createLogger({
+    level: 'debug',
+    format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+    ),
+    defaultMeta: { service: 'jobs-router' },
+    transports: [
+        new winston.transports.Console({
+            format: winston.format.combine(
+                winston.format.colorize(),
+                winston.format.simple()
+            )
+        })
+    ]
+});
+
+// Jobs are visible to the key that started them and to admins of the same tenant
+const canAccessJob = (record: ApiKeyRecord | undefined, job: Job): boolean => {
+    if (!record) return false;
+    if (job.keyId === record.id) return true;
+    return record.tier === 'admin' && (record.tenant === job.tenant || isOperator(record));
+};
+
+// Look up a job the caller may see; other callers' jobs look like missing ones
+const findJob = (req: express.Request, res: express.Response): Job | null => {
+    const job = getJob(req.params.id);
+    if (!job || !canAccessJob(req.apiKey, job)) {
+        res.status(404).json({ error: 'Job not found' });
+        return null;
+    }
+    return job;
+};
+
+// Start a scrape or crawl job and return its ID immediately
+router.post('/', (req, res) => {
+    try {
+        const job = req.body.type === 'crawl' ? startCrawlJob(req) : startScrapeJob(req);
+        res.status(202).location(`${req.baseUrl}/${job.id}`).json({
+            success: true,
+            jobId: job.id,
+            type: job.type,
+            status: job.status,
+            requestId: job.requestId,
+            statusUrl: `${req.baseUrl}/${job.id}`
+        });
+    } catch (error) {
+        // Invalid parameters are reported like the synchronous routes report them
+        const parsedError = parseError(error);
+        sendErrorResponse(res, parsedError.code, parsedError.message, req.requestId as string, parsedError.details);
+    }
+});
+
+// Get a job's status, progress and, once it has finished, its result or error
+router.get('/:id', (req, res) => {
+    try {
+        const job = findJob(req, res);
+        if (!job) return;
+        res.json(job);
+    } catch (error) {
+        logger.error('Error fetching job:', error);
+        res.status(500).json({ error: 'Failed to fetch job' });
+    }
+});
+
+// Get the webhook delivery for a job and every attempt made so far
+router.get('/:id/deliveries', (req, res) => {
+    try {
+        const job = findJob(req, res);
+        if (!job) return;
+
+        if (!job.callbackUrl) {
+            return res.status(404).json({ error: 'Job has no callbackUrl' });
+        }
+        // Delivery starts when the job finishes
+        res.json(job.webhook || { url: job.callbackUrl, status: 'waiting', attempts: [] });
+    } catch (error) {
+        logger.error('Error fetching webhook deliveries:', error);
+        res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+    }
+});
+
+// Cancel a queued or running job
+router.delete('/:id', (req, res) => {
+    try {
+        const job = findJob(req, res);
+        if (!job) return;
+
+        if (!cancelJob(job.id)) {
+            return res.status(409).json({ error: `Job has already ${job.status}`, job });
+        }
+        res.json({ success: true, job });
+    } catch (error) {
+        logger.error('Error cancelling job:', error);
+        res.status(500).json({ error: 'Failed to cancel job' });
+    }
+});
+
+export default router;
@@ -1,7 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { browserManager } from '../browserManager';
-import { requestQueue } from '../utils/requestQueue';
+import { LaneStatus, RequestQueue, requestQueue } from '../utils/requestQueue';
 import { getMemoryInfo, isMemoryPressureHigh } from '../utils/memory';
+import { authzCache } from '../utils/authzCache';
 import os from 'os';
 
 const router = Router();
@@ -24,24 +25,16 @@ interface ContextMetric {
   urls?: string[];
 }
 
-// Add missing RequestQueue interface methods if they don't exist
-interface EnhancedRequestQueue {
-  getActiveCount(): number;
-  getPendingCount(): number;
-  getCompletedCount(): number;
-  getAverageProcessingTime(): number;
-}
-
-// Add helper to check and provide default values for queue metrics
-function getQueueMetrics(queue: any): { active: number, pending: number, completed: number, avgProcessingTime: string } {
-  // Default implementation if methods don't exist
-  const hasMetrics = typeof queue.getActiveCount === 'function';
+// Queue load overall and per priority lane
+function getQueueMetrics(queue: RequestQueue<any>): { active: number, pending: number, completed: number, avgProcessingTime: string, lanes: Record<string, LaneStatus> } {
+  const status = queue.getStatus();
   
   return {
-    active: hasMetrics ? queue.getActiveCount() : 0,
-    pending: hasMetrics ? queue.getPendingCount() : 0,
-    completed: hasMetrics ? queue.getCompletedCount() : 0,
-    avgProcessingTime: hasMetrics ? queue.getAverageProcessingTime().toFixed(2) + 'ms' : '0.00ms'
+    active: status.active,
+    pending: status.pending,
+    completed: status.completed,
+    avgProcessingTime: status.averageDuration.toFixed(2) + 'ms',
+    lanes: status.lanes
   };
 }
 
@@ -274,6 +267,9 @@ router.get('/', async (req: Request, res: Response) => {
     // Format queue metrics
     const queueMetrics = getQueueMetrics(requestQueue);
     
+    // Authorization cache hit/miss counts
+    const authzCacheStats = authzCache.getStats();
+    
     if (simplified) {
       // Return a simplified version of metrics with just the key data
       const simplifiedMetrics = {
@@ -295,7 +291,13 @@ router.get('/', async (req: Request, res: Response) => {
         },
         queue: {
           active: queueMetrics.active,
-          pending: queueMetrics.pending
+          pending: queueMetrics.pending,
+          lanes: Object.fromEntries(Object.entries(queueMetrics.lanes)
+            .map(([lane, { active, pending }]) => [lane, { active, pending }]))
+        },
+        authzCache: {
+          hits: authzCacheStats.decisions.hits,
+          misses: authzCacheStats.decisions.misses
         }
       };
       
@@ -336,7 +338,8 @@ router.get('/', async (req: Request, res: Response) => {
         contexts: contextMetrics,
         pagesProcessed: browserMetrics?.totalPagesProcessed || 0
       },
-      queue: queueMetrics
+      queue: queueMetrics,
+      authzCache: authzCacheStats
     };
     
     return res.json(metrics);
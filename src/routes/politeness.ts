@@ -0,0 +1,80 @@
+import express from 'express';
+import winston from 'winston';
+import {
+    DEFAULT_HOST_POLICY,
+    getHostStatus,
+    listHostOverrides,
+    removeHostOverride,
+    setHostOverride,
+    validateHostOverride
+} from '../utils/hostPoliteness';
+
+const router = express.Router();
+const logger = winston.createLogger({
+    level: 'debug',
+    format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+    ),
+    defaultMeta: { service: 'politeness-router' },
+    transports: [
+        new winston.transports.Console({
+            format: winston.format.combine(
+                winston.format.colorize(),
+                winston.format.simple()
+            )
+        })
+    ]
+});
+
+// Get the default politeness policy and every per-host override
+router.get('/', (req, res) => {
+    try {
+        res.json({ defaults: DEFAULT_HOST_POLICY, overrides: listHostOverrides() });
+    } catch (error) {
+        logger.error('Error fetching politeness overrides:', error);
+        res.status(500).json({ error: 'Failed to fetch politeness overrides' });
+    }
+});
+
+// Get the policy, robots.txt crawl delay and current load for a host
+router.get('/:host', async (req, res) => {
+    try {
+        res.json(await getHostStatus(req.params.host.toLowerCase()));
+    } catch (error) {
+        logger.error('Error fetching host politeness status:', error);
+        res.status(500).json({ error: 'Failed to fetch host politeness status' });
+    }
+});
+
+// Set the override for a host or domain pattern: { "maxConcurrent": 1, "minDelay": 5000, "honorCrawlDelay": true }
+router.put('/:host', (req, res) => {
+    const host = req.params.host.toLowerCase();
+    const validationError = validateHostOverride(host, req.body);
+    if (validationError) {
+        return res.status(400).json({ error: validationError });
+    }
+
+    try {
+        setHostOverride(host, req.body);
+        res.json({ success: true, host, override: req.body });
+    } catch (error) {
+        logger.error('Error setting politeness override:', error);
+        res.status(500).json({ error: 'Failed to set politeness override' });
+    }
+});
+
+// Remove a host's override so the defaults apply again
+router.delete('/:host', (req, res) => {
+    try {
+        if (!removeHostOverride(req.params.host.toLowerCase())) {
+            return res.status(404).json({ error: 'No politeness override for this host' });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        logger.error('Error removing politeness override:', error);
+        res.status(500).json({ error: 'Failed to remove politeness override' });
+    }
+});
+
+export default router;
@@ -0,0 +1,167 @@
+import express from 'express';
+import winston from 'winston';
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_TENANT, isTenantPremiumDomain } from '../utils/tenantStore';
+import { findMatchingPattern, isValidDomainPattern, isWildcardPattern } from '../utils/domainPattern';
+import { getDecisionEngine } from '../utils/decisionEngine';
+
+const router = express.Router();
+const logger = winston.createLogger({
+    level: 'debug',
+    format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+    ),
+    defaultMeta: { service: 'premium-domains-router' },
+    transports: [
+        new winston.transports.Console({
+            format: winston.format.combine(
+                winston.format.colorize(),
+                winston.format.simple()
+            )
+        })
+    ]
+});
+
+// Store premium domain patterns in a JSON file
+const PREMIUM_DOMAINS_FILE = path.join(__dirname, '../../data/premium_domains.json');
+
+// Ensure data directory exists
+if (!fs.existsSync(path.dirname(PREMIUM_DOMAINS_FILE))) {
+    fs.mkdirSync(path.dirname(PREMIUM_DOMAINS_FILE), { recursive: true });
+}
+
+// Initialize premium domains from file or create empty list
+let premiumDomains: Set<string>;
+try {
+    const data = fs.readFileSync(PREMIUM_DOMAINS_FILE, 'utf8');
+    premiumDomains = new Set(JSON.parse(data));
+} catch (error) {
+    premiumDomains = new Set();
+    // Create empty premium domains file
+    fs.writeFileSync(PREMIUM_DOMAINS_FILE, JSON.stringify([]));
+}
+
+// Save premium domains to file
+const savePremiumDomains = () => {
+    fs.writeFileSync(PREMIUM_DOMAINS_FILE, JSON.stringify(Array.from(premiumDomains)));
+};
+
+// Register an exact domain as a premium website instance so Permit.io policies can reference it.
+// Wildcard patterns have no single instance and are only applied through the is_premium attribute.
+const syncPremiumDomain = async (domain: string): Promise<boolean> => {
+    if (isWildcardPattern(domain)) {
+        return false;
+    }
+
+    try {
+        await getDecisionEngine().syncResourceInstance({
+            type: 'website',
+            key: domain,
+            attributes: { domain, is_premium: true }
+        }, DEFAULT_TENANT);
+        return true;
+    } catch (error: any) {
+        logger.warn(`Failed to sync premium domain ${domain}: ${error.message || error}`);
+        return false;
+    }
+};
+
+// Get all premium domain patterns
+router.get('/', (req, res) => {
+    try {
+        res.json(Array.from(premiumDomains));
+    } catch (error) {
+        logger.error('Error fetching premium domains:', error);
+        res.status(500).json({ error: 'Failed to fetch premium domains' });
+    }
+});
+
+// Check whether a domain is premium for the caller's tenant and which pattern matched
+router.get('/check', (req, res) => {
+    const domain = req.query.domain;
+
+    if (typeof domain !== 'string' || !domain) {
+        return res.status(400).json({ error: 'Domain is required' });
+    }
+
+    const tenant = req.user?.tenant || DEFAULT_TENANT;
+    const pattern = findMatchingPattern(domain, premiumDomains);
+    res.json({
+        domain,
+        isPremium: pattern !== null || isTenantPremiumDomain(tenant, domain),
+        pattern,
+        tenant
+    });
+});
+
+// Add a premium domain or wildcard pattern
+router.post('/', async (req, res) => {
+    const domain = typeof req.body.domain === 'string' ? req.body.domain.trim().toLowerCase() : '';
+
+    if (!domain) {
+        return res.status(400).json({ error: 'Domain is required' });
+    }
+
+    if (!isValidDomainPattern(domain)) {
+        return res.status(400).json({ error: 'Domain must be a hostname, optionally with * wildcards (e.g. *.example.com)' });
+    }
+
+    try {
+        premiumDomains.add(domain);
+        savePremiumDomains();
+        const synced = await syncPremiumDomain(domain);
+        res.json({ success: true, domain, synced });
+    } catch (error) {
+        logger.error('Error adding premium domain:', error);
+        res.status(500).json({ error: 'Failed to add premium domain' });
+    }
+});
+
+// Re-sync every exact premium domain with the decision engine
+router.post('/sync', async (req, res) => {
+    try {
+        const domains = Array.from(premiumDomains);
+        const results = await Promise.all(domains.map(syncPremiumDomain));
+        res.json({
+            success: true,
+            synced: domains.filter((_, index) => results[index]),
+            skipped: domains.filter((_, index) => !results[index])
+        });
+    } catch (error) {
+        logger.error('Error syncing premium domains:', error);
+        res.status(500).json({ error: 'Failed to sync premium domains' });
+    }
+});
+
+// Remove a premium domain or pattern
+router.delete('/:domain', async (req, res) => {
+    const domain = req.params.domain.toLowerCase();
+
+    try {
+        if (!premiumDomains.delete(domain)) {
+            return res.status(404).json({ error: 'Domain not found in premium domains' });
+        }
+        savePremiumDomains();
+
+        if (!isWildcardPattern(domain)) {
+            try {
+                await getDecisionEngine().deleteResourceInstance('website', domain);
+            } catch (error: any) {
+                logger.warn(`Failed to remove premium domain ${domain} from the decision engine: ${error.message || error}`);
+            }
+        }
+        res.json({ success: true });
+    } catch (error) {
+        logger.error('Error removing premium domain:', error);
+        res.status(500).json({ error: 'Failed to remove premium domain' });
+    }
+});
+
+// Check if a hostname is premium globally or for the given tenant
+export const isPremiumDomain = (hostname: string, tenant: string = DEFAULT_TENANT): boolean => {
+    return findMatchingPattern(hostname, premiumDomains) !== null || isTenantPremiumDomain(tenant, hostname);
+};
+
+export default router;
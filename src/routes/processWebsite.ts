@@ -1,5 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { ErrorCode, sendErrorResponse } from '../utils/errorHandler';
+import { ApiError, ErrorCode, parseError, sendErrorResponse } from '../utils/errorHandler';
+import { Job, JobContext, JobOptions, JobRequest, cancelJob, registerJobRunner, sendJobResult, startJob, waitForJob } from '../utils/jobs';
+import { getCallbackUrl } from '../utils/webhooks';
 import winston from 'winston';
 import validator from 'validator';
 import { URL } from 'url';
@@ -7,6 +9,11 @@ import pLimit from 'p-limit';
 // Import processLinks router and the processWebsite function
 import { processWithRetry } from '../processLinks';
 import { browserManager } from '../browserManager';
+import { findBlacklistRule } from './blacklist';
+import { ALLOWLIST_ONLY, isAllowlisted } from './allowlist';
+import { CREDIT_WEIGHTS, getCreditSummary, refundCredits } from '../utils/credits';
+import { DEFAULT_TENANT } from '../utils/tenantStore';
+import { getHostDelay, getHostPolicy } from '../utils/hostPoliteness';
 
 // Local implementation of isSameDomain
 function isSameDomain(baseUrl: string, testUrl: string): boolean {
@@ -44,7 +51,10 @@ const router = Router();
 // Configure concurrency and timeout limits
 const MAX_CONCURRENT_SUBPAGE_REQUESTS = parseInt(process.env.MAX_CONCURRENT_SUBPAGE_REQUESTS || '10', 10);
 const SUBPAGE_REQUEST_TIMEOUT = parseInt(process.env.SUBPAGE_REQUEST_TIMEOUT || '15000', 10);
-const DEFAULT_SUBPAGES_COUNT = parseInt(process.env.DEFAULT_SUBPAGES_COUNT || '5', 10);
+// Overall limit for a crawl, queue wait included; 0 lets crawls run as long as they need
+const CRAWL_TIMEOUT = parseInt(process.env.CRAWL_TIMEOUT || '600000', 10);
+export const DEFAULT_SUBPAGES_COUNT = parseInt(process.env.DEFAULT_SUBPAGES_COUNT || '5', 10);
+export const DEFAULT_MAX_DEPTH = 2;
 const MAX_RETRIES = parseInt(process.env.MAX_RETRIES || '1', 10);
 
 // Interface for the request body
@@ -70,6 +80,11 @@ interface WebsiteProcessResult {
   image_urls: { url: string, alt: string, context: string }[];
   external_urls: { url: string, text: string }[];
   requestId: string;
+  tenant?: string;
+  rawHtml?: string;
+  deniedFeatures: string[];
+  creditsUsed: number;
+  creditsRemaining: number | null;
   timestamp: number;
   processingTimeMs: number;
   subpages: any[];
@@ -83,35 +98,32 @@ interface WebsiteProcessResult {
     };
     subpagesRequested: number;
     subpagesSelected: number;
+    subpagesBlacklisted: number;
+    subpagesNotAllowlisted: number;
     subpagesProcessed: number;
     subpagesFailed: number;
   };
 }
 
+// Subpage credits are reserved for every requested subpage; give back those that were not scraped
+const refundSubpages = (req: JobRequest, subpagesCount: number, processed: number) => {
+  const reserved = Math.max(Math.floor(Number(subpagesCount)) || 0, 0);
+  refundCredits(req, Math.max(reserved - processed, 0) * CREDIT_WEIGHTS.subpage);
+};
+
 /**
- * Route handler for processing an entire website
+ * Validate a crawl request and start it as a job.
+ * Throws an ApiError when the URL is missing or invalid, or a QueueRejectedError when the queue is full.
  */
-router.post('/api/processWebsite', async (req: Request, res: Response) => {
-  // Generate a unique request ID
-  const requestId = Date.now().toString(36) + Math.random().toString(36).substring(2, 7);
-  const startTime = Date.now();
-  let mainPageResult: any = null;
+export function startCrawlJob(req: Request, options: JobOptions = {}): Job {
+  const requestId = req.requestId || Date.now().toString(36) + Math.random().toString(36).substring(2, 7);
+  req.requestId = requestId;
+  const { url } = req.body as ProcessWebsiteRequest;
   
   try {
-    // Extract and validate request parameters
-    const { 
-      url, 
-      subpagesCount = DEFAULT_SUBPAGES_COUNT,
-      keywords = [], 
-      excludePatterns = [
-        '/login', '/signin', '/signup', '/register', '/account',
-        '/privacy', '/terms', '/cookies', '/gdpr', '/contact',
-        '/cart', '/checkout', '/basket', '/purchase', '/buy'
-      ],
-      maxDepth = 2
-    } = req.body as ProcessWebsiteRequest;
-    
-    logger.info(`[${requestId}] Processing website request for: ${url} with ${subpagesCount} subpages`);
+    if (!url || typeof url !== 'string') {
+      throw new ApiError(ErrorCode.MISSING_PARAM, 'URL is required');
+    }
     
     // Format and normalize URL
     let formattedUrl = url.trim().toLowerCase();
@@ -124,25 +136,103 @@ router.post('/api/processWebsite', async (req: Request, res: Response) => {
     
     // Validate URL after formatting
     if (!formattedUrl || !validator.isURL(formattedUrl, { require_protocol: true })) {
-      return sendErrorResponse(res, ErrorCode.INVALID_URL, 'Invalid URL provided', requestId);
+      throw new ApiError(ErrorCode.INVALID_URL, 'Invalid URL provided');
     }
     
+    const callbackUrl = getCallbackUrl(req.body);
+    
+    return startJob(req, 'crawl', formattedUrl, {
+      timeout: CRAWL_TIMEOUT,
+      callbackUrl,
+      // A crawl that ran refunds its own unscraped subpages; one that never ran is not charged
+      onFailed: ran => {
+        if (!ran) refundCredits(req, req.credits?.reserved ?? 0);
+      },
+      ...options
+    });
+  } catch (error) {
+    // Nothing will be crawled, so neither the request nor the reserved subpages are charged
+    refundCredits(req, req.credits?.reserved ?? 0);
+    throw error;
+  }
+}
+
+/**
+ * Route handler for processing an entire website. Runs a crawl job and waits for it.
+ */
+router.post('/api/processWebsite', async (req: Request, res: Response) => {
+  let job: Job;
+  try {
+    job = startCrawlJob(req, { retain: false });
+  } catch (error) {
+    const parsedError = parseError(error);
+    return sendErrorResponse(res, parsedError.code, parsedError.message, req.requestId as string, parsedError.details);
+  }
+  
+  // A client disconnect stops the crawl, as it does a single-page scrape
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      cancelJob(job.id);
+    }
+  });
+  
+  sendJobResult(res, await waitForJob(job));
+});
+
+// Stop a crawl between pages once its job is cancelled or times out
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) {
+    throw new Error('Job was cancelled');
+  }
+};
+
+/**
+ * Crawl a website: the main page, then the best subpages. Resolves with the response body.
+ */
+async function runCrawl(req: JobRequest, context: JobContext): Promise<WebsiteProcessResult> {
+  const { requestId, url: formattedUrl } = context.job;
+  const startTime = Date.now();
+  let mainPageResult: any = null;
+  let subpagesCharged = false;
+  
+  try {
+    // Extract request parameters
+    const { 
+      subpagesCount = DEFAULT_SUBPAGES_COUNT,
+      keywords = [], 
+      excludePatterns = [
+        '/login', '/signin', '/signup', '/register', '/account',
+        '/privacy', '/terms', '/cookies', '/gdpr', '/contact',
+        '/cart', '/checkout', '/basket', '/purchase', '/buy'
+      ],
+      maxDepth = DEFAULT_MAX_DEPTH
+    } = req.body as ProcessWebsiteRequest;
+    
+    logger.info(`[${requestId}] Processing website request for: ${formattedUrl} with ${subpagesCount} subpages`);
+    
     // Call processWithRetry function directly
     logger.info(`[${requestId}] Processing main page: ${formattedUrl}`);
-    
-    mainPageResult = await processWithRetry(formattedUrl, requestId, MAX_RETRIES);
+    context.started();
+    context.setProgress({ stage: 'main_page', total: 1 });
+    
+    // Only the main page gives up the queue slot while its host is busy; subpages run
+    // side by side under the crawl's slot and mostly wait on the crawl's own pages
+    mainPageResult = await processWithRetry(formattedUrl, requestId, MAX_RETRIES, {
+      signal: context.signal,
+      suspend: context.suspend
+    });
+    throwIfAborted(context.signal);
     
     logger.debug(`[${requestId}] Received main page result for: ${formattedUrl}`);
     
     // Check if we have a valid result
     if (!mainPageResult) {
       logger.error(`[${requestId}] Failed to process main page: ${formattedUrl}`);
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to process main page',
+      refundSubpages(req, subpagesCount, 0);
+      subpagesCharged = true;
+      throw new ApiError(ErrorCode.SCRAPING_ERROR, 'Failed to process main page', {
         error: 'No result returned',
-        requestId,
-        timestamp: Date.now()
+        ...getCreditSummary(req)
       });
     }
     
@@ -181,7 +271,10 @@ router.post('/api/processWebsite', async (req: Request, res: Response) => {
       .replace(/^https?:\/\//, '')
       .replace(/^www\./, '');
 
-    // Step 2: Filter out the main URL and deduplicate subpages
+    // Step 2: Filter out the main URL, blacklisted hosts and duplicate subpages
+    const tenant = req.user?.tenant || DEFAULT_TENANT;
+    const blacklistedSubpageUrls: string[] = [];
+    const notAllowlistedSubpageUrls: string[] = [];
     const seenUrls = new Set<string>();
     const filteredSubpageUrls = selectedSubpageUrls.filter(url => {
       // Normalize subpage URL
@@ -199,6 +292,21 @@ router.post('/api/processWebsite', async (req: Request, res: Response) => {
         return false;
       }
       
+      // Skip subpages on blacklisted hosts; links can point at other domains
+      const rule = findBlacklistRule(new URL(url).hostname, tenant);
+      if (rule) {
+        logger.info(`[${requestId}] Skipping blacklisted subpage ${url} (${rule.type} rule ${rule.pattern})`);
+        blacklistedSubpageUrls.push(url);
+        return false;
+      }
+
+      // In allowlist-only mode, subpages must also be on the caller's allowlist
+      if (ALLOWLIST_ONLY && req.apiKey && !isAllowlisted(new URL(url).hostname, req.apiKey)) {
+        logger.info(`[${requestId}] Skipping subpage ${url} not on the allowlist`);
+        notAllowlistedSubpageUrls.push(url);
+        return false;
+      }
+      
       // Add to seen URLs and keep this one
       seenUrls.add(normalizedSubpage);
       return true;
@@ -280,19 +388,26 @@ router.post('/api/processWebsite', async (req: Request, res: Response) => {
     combinedContent += `${contentToUse}\n\n`;
     
     // Process subpages with concurrency control
+    context.setProgress({ stage: 'subpages', completed: 1, total: 1 + filteredSubpageUrls.length });
     const subpageResults = await scrapeSubpagesWithConcurrencyLimit(
       filteredSubpageUrls,
       MAX_CONCURRENT_SUBPAGE_REQUESTS,
       SUBPAGE_REQUEST_TIMEOUT,
       requestId,
-      req.headers
+      context.signal,
+      () => context.setProgress({ completed: context.job.progress.completed + 1 })
     );
+    throwIfAborted(context.signal);
     
     // Calculate statistics
     const successfulSubpages = subpageResults.filter(result => result.success);
     const failedSubpages = subpageResults.filter(result => !result.success);
     
     logger.info(`[${requestId}] Subpage processing completed: ${successfulSubpages.length} successful, ${failedSubpages.length} failed`);
+
+    // Only successfully scraped subpages are charged
+    refundSubpages(req, subpagesCount, successfulSubpages.length);
+    subpagesCharged = true;
     
     // Add subpage content to combinedContent and collect URLs
     successfulSubpages.forEach((result, index) => {
@@ -410,6 +525,11 @@ router.post('/api/processWebsite', async (req: Request, res: Response) => {
       image_urls: Array.from(allUniqueImageUrls.values()),
       external_urls: Array.from(allUniqueExternalUrls.values()),
       requestId,
+      tenant: req.user?.tenant,
+      // Only returned when the raw_html feature was requested and granted
+      rawHtml: req.features?.granted.includes('raw_html') ? mainPageResult.rawHtml : undefined,
+      deniedFeatures: req.features?.denied || [],
+      ...getCreditSummary(req),
       timestamp: Date.now(),
       processingTimeMs,
       subpages: simplifiedSubpages,
@@ -423,6 +543,8 @@ router.post('/api/processWebsite', async (req: Request, res: Response) => {
         },
         subpagesRequested: subpagesCount,
         subpagesSelected: filteredSubpageUrls.length,
+        subpagesBlacklisted: blacklistedSubpageUrls.length,
+        subpagesNotAllowlisted: notAllowlistedSubpageUrls.length,
         subpagesProcessed: successfulSubpages.length,
         subpagesFailed: failedSubpages.length
       }
@@ -432,10 +554,9 @@ router.post('/api/processWebsite', async (req: Request, res: Response) => {
     logger.info(`[${requestId}] Completed website processing for ${formattedUrl} with ${successfulSubpages.length} subpages in ${processingTimeMs}ms`);
     logger.debug(`[${requestId}] Collected URLs: pages=${allUniquePageUrls.size}, social=${allUniqueSocialUrls.size}, contact=${allUniqueContactUrls.size}, images=${allUniqueImageUrls.size}, external=${allUniqueExternalUrls.size}`);
     
-    // Send response immediately to improve perceived performance
-    res.json(aggregatedResult);
+    context.setProgress({ stage: 'done' });
     
-    // Check memory usage after sending response to determine if cleanup is needed
+    // Check memory usage to determine if cleanup is needed
     const memInfo = process.memoryUsage();
     const memUsageMB = Math.round(memInfo.rss / (1024 * 1024));
     
@@ -443,7 +564,7 @@ router.post('/api/processWebsite', async (req: Request, res: Response) => {
     if (memUsageMB > 500) { // Only if over 500MB
       cleanupResources(requestId);
     }
-    return;
+    return aggregatedResult;
     
   } catch (error: any) {
     logger.error(`[${requestId}] Error processing website: ${error.message || error}`);
@@ -453,18 +574,23 @@ router.post('/api/processWebsite', async (req: Request, res: Response) => {
     if (mainPageResult) {
       cleanupResources(requestId);
     }
+
+    // A failed crawl returns no subpages, so none are charged
+    if (!subpagesCharged) {
+      refundSubpages(req, req.body?.subpagesCount ?? DEFAULT_SUBPAGES_COUNT, 0);
+    }
     
-    return sendErrorResponse(
-      res,
-      ErrorCode.SCRAPING_ERROR,
-      `Failed to process website: ${error.message || 'Unknown error'}`,
-      requestId
-    );
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError(ErrorCode.SCRAPING_ERROR, `Failed to process website: ${error.message || 'Unknown error'}`);
   } finally {
     // Always do cleanup, not just when memory is high
     cleanupResources(requestId);
   }
-});
+}
+
+registerJobRunner('crawl', runCrawl);
 
 /**
  * Select the best subpages to scrape based on the provided criteria
@@ -629,11 +755,25 @@ async function scrapeSubpagesWithConcurrencyLimit(
   concurrencyLimit: number,
   timeout: number,
   requestId: string,
-  headers: any
+  signal?: AbortSignal,
+  onSubpageDone?: () => void
 ): Promise<any[]> {
+  // processUrl holds every page to its host's limits. Running more subpages at once than the
+  // strictest host allows would only leave them waiting for a slot, so cap concurrency here.
+  // Subpage timeouts start once a slot is acquired, so the delays ahead do not count.
+  const hostnames = Array.from(new Set(urls.map(url => new URL(url).hostname)));
+  if (hostnames.length > 0) {
+    const hostLimit = Math.min(...hostnames.map(hostname => getHostPolicy(hostname).maxConcurrent));
+    const hostDelay = Math.max(...await Promise.all(urls.map(getHostDelay)));
+    if (hostLimit < concurrencyLimit || hostDelay > 0) {
+      logger.info(`[${requestId}] Politeness limits: ${hostLimit} concurrent subpages, ${hostDelay}ms between pages`);
+    }
+    concurrencyLimit = Math.max(Math.min(concurrencyLimit, hostLimit), 1);
+  }
+
   // If we have very few URLs, don't bother with batching
   if (urls.length <= concurrencyLimit) {
-    return await processUrlBatch(urls, concurrencyLimit, timeout, requestId);
+    return await processUrlBatch(urls, concurrencyLimit, timeout, requestId, signal, onSubpageDone);
   }
   
   // Create concurrency limiter
@@ -653,7 +793,7 @@ async function scrapeSubpagesWithConcurrencyLimit(
     
     logger.info(`[${requestId}] Processing batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(urls.length/batchSize)} (${batch.length} URLs)`);
     
-    const batchResults = await processUrlBatch(batch, concurrencyLimit, timeout, requestId);
+    const batchResults = await processUrlBatch(batch, concurrencyLimit, timeout, requestId, signal, onSubpageDone);
     results.push(...batchResults);
     
     // Do cleanup after each batch, not just the last one
@@ -704,32 +844,53 @@ async function processUrlBatch(
   urls: string[],
   concurrencyLimit: number,
   timeout: number,
-  requestId: string
+  requestId: string,
+  signal?: AbortSignal,
+  onSubpageDone?: () => void
 ): Promise<any[]> {
   // Create concurrency limiter
   const limit = pLimit(concurrencyLimit);
   
   const batchPromises = urls.map(url => {
     return limit(() => {
+      // Subpages that have not started when the job is cancelled are skipped
+      if (signal?.aborted) {
+        return Promise.resolve({ success: false, url, error: 'Cancelled', message: 'Job was cancelled' });
+      }
+      
       return new Promise<any>(async (resolve) => {
         const subRequestId = `${requestId}-sub-${Date.now().toString(36).substring(2, 5)}`;
         logger.info(`[${requestId}] Processing subpage: ${url} with sub-requestId: ${subRequestId}`);
         
-        // Set a timeout for each subpage request
-        const timeoutId = setTimeout(() => {
-          logger.warn(`[${requestId}] Timeout for subpage: ${url}`);
-          cleanupResources(subRequestId);
-          resolve({
-            success: false,
-            url,
-            error: 'Subpage processing timeout',
-            message: 'Subpage processing timeout'
-          });
-        }, timeout);
+        // Aborted when the subpage times out or the job stops, closing the subpage's page
+        const subpageController = new AbortController();
+        const abortSubpage = () => subpageController.abort();
+        signal?.addEventListener('abort', abortSubpage, { once: true });
+        
+        // Time each subpage from when it gets a slot on its host, so waiting behind
+        // the host's concurrency cap and delay does not count against it
+        let timeoutId: NodeJS.Timeout | undefined;
+        const startTimeout = () => {
+          if (timeoutId) return;
+          timeoutId = setTimeout(() => {
+            logger.warn(`[${requestId}] Timeout for subpage: ${url}`);
+            subpageController.abort();
+            cleanupResources(subRequestId);
+            resolve({
+              success: false,
+              url,
+              error: 'Subpage processing timeout',
+              message: 'Subpage processing timeout'
+            });
+          }, timeout);
+        };
         
         try {
           // Call processWithRetry function directly
-          const result = await processWithRetry(url, subRequestId, MAX_RETRIES);
+          const result = await processWithRetry(url, subRequestId, MAX_RETRIES, {
+            signal: subpageController.signal,
+            onStart: startTimeout
+          });
           
           // Clear the timeout since we got a response
           clearTimeout(timeoutId);
@@ -758,13 +919,18 @@ async function processUrlBatch(
             error: error.message || 'Unknown error',
             message: `Error processing subpage: ${error.message || 'Unknown error'}`
           });
+        } finally {
+          signal?.removeEventListener('abort', abortSubpage);
         }
       });
     });
   });
   
-  // Execute all promises with concurrency control
-  return await Promise.all(batchPromises);
+  // Execute all promises with concurrency control, reporting each subpage as it finishes
+  return await Promise.all(batchPromises.map(promise => promise.then(result => {
+    onSubpageDone?.();
+    return result;
+  })));
 }
 
 function extractDomainCore(url: string): string {
@@ -0,0 +1,115 @@
+import express from 'express';
+import winston from 'winston';
+import { isOperator } from '../middleware/apiKeyAuth';
+import { requestQueue } from '../utils/requestQueue';
+import { QueueEntry } from '../utils/queueStore';
+
+const router = express.Router();
+const logger = winston.createLogger({
+    level: 'debug',
+    format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+    ),
+    defaultMeta: { service: 'queue-router' },
+    transports: [
+        new winston.transports.Console({
+            format: winston.format.combine(
+                winston.format.colorize(),
+                winston.format.simple()
+            )
+        })
+    ]
+});
+
+// Admins see their own tenant's dead letters; operators see every tenant's
+const canAccessEntry = (req: express.Request, entry: QueueEntry): boolean =>
+    !!req.apiKey && (isOperator(req.apiKey) || entry.tenant === req.apiKey.tenant);
+
+const toDeadLetter = (entry: QueueEntry) => ({
+    id: entry.id,
+    kind: entry.kind,
+    tenant: entry.tenant,
+    attempts: entry.attempts,
+    lastError: entry.lastError,
+    createdAt: new Date(entry.createdAt).toISOString(),
+    failedAt: new Date(entry.updatedAt).toISOString(),
+    payload: entry.payload
+});
+
+// Look up a dead letter the caller may see; other tenants' entries look like missing ones
+const findDeadLetter = (req: express.Request, res: express.Response): QueueEntry | null => {
+    const entry = requestQueue.getDeadLetter(req.params.id);
+    if (!entry || !canAccessEntry(req, entry)) {
+        res.status(404).json({ error: 'Dead letter not found' });
+        return null;
+    }
+    return entry;
+};
+
+// Get the queue's load and where durable tasks are stored
+router.get('/', (req, res) => {
+    try {
+        res.json(requestQueue.getStatus());
+    } catch (error) {
+        logger.error('Error fetching queue status:', error);
+        res.status(500).json({ error: 'Failed to fetch queue status' });
+    }
+});
+
+// List tasks that ran out of attempts
+router.get('/dead-letters', (req, res) => {
+    try {
+        const deadLetters = requestQueue.listDeadLetters()
+            .filter(entry => canAccessEntry(req, entry))
+            .map(toDeadLetter);
+        res.json({ deadLetters, total: deadLetters.length });
+    } catch (error) {
+        logger.error('Error fetching dead letters:', error);
+        res.status(500).json({ error: 'Failed to fetch dead letters' });
+    }
+});
+
+router.get('/dead-letters/:id', (req, res) => {
+    try {
+        const entry = findDeadLetter(req, res);
+        if (!entry) return;
+        res.json(toDeadLetter(entry));
+    } catch (error) {
+        logger.error('Error fetching dead letter:', error);
+        res.status(500).json({ error: 'Failed to fetch dead letter' });
+    }
+});
+
+// Queue a dead letter again with a fresh set of attempts
+router.post('/dead-letters/:id/retry', (req, res) => {
+    try {
+        const entry = findDeadLetter(req, res);
+        if (!entry) return;
+
+        if (!requestQueue.retryDeadLetter(entry.id)) {
+            return res.status(404).json({ error: 'Dead letter not found' });
+        }
+        logger.info(`Dead letter ${entry.id} requeued by key ${req.apiKey?.id}`);
+        res.json({ success: true, id: entry.id });
+    } catch (error) {
+        logger.error('Error retrying dead letter:', error);
+        res.status(500).json({ error: 'Failed to retry dead letter' });
+    }
+});
+
+// Discard a dead letter
+router.delete('/dead-letters/:id', (req, res) => {
+    try {
+        const entry = findDeadLetter(req, res);
+        if (!entry) return;
+
+        requestQueue.removeDeadLetter(entry.id);
+        res.json({ success: true });
+    } catch (error) {
+        logger.error('Error removing dead letter:', error);
+        res.status(500).json({ error: 'Failed to remove dead letter' });
+    }
+});
+
+export default router;
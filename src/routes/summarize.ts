@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
-import { permitAuth } from '../middleware/permitAuth';
+import { permitAuth, permitFeatures } from '../middleware/permitAuth';
+import { getCreditSummary, getFeatureCredits, refundCredits } from '../utils/credits';
 import winston from 'winston';
 import dotenv from 'dotenv';
 import OpenAI from 'openai';
@@ -101,9 +102,9 @@ Sentiment: ${result.sentiment}`;
 }
 
 // Route to process text (clean and/or summarize)
-router.post('/process', permitAuth, async (req: Request, res: Response) => {
+router.post('/process', permitAuth, permitFeatures, async (req: Request, res: Response) => {
     try {
-        const { text, clean = false, summarize = false } = req.body;
+        const { text, clean = false } = req.body;
 
         if (!text) {
             return res.status(400).json({
@@ -119,25 +120,14 @@ router.post('/process', permitAuth, async (req: Request, res: Response) => {
             processedText = cleanText(processedText);
         }
 
-        // Summarize text if requested (pro/admin only)
-        if (summarize) {
-            // The permitAuth middleware will have already checked permissions
-            // and added user context to the request
-            const userTier = req.user?.attributes?.tier;
-            
-            if (userTier !== 'pro_user' && userTier !== 'admin') {
-                return res.status(403).json({
-                    success: false,
-                    error: 'Access denied',
-                    details: 'Text summarization is only available for Pro and Admin users'
-                });
-            }
-
+        // Summarize text if requested and the summarization feature was granted
+        if (req.features?.granted.includes('summarization')) {
             try {
                 processedText = await summarizeText(processedText);
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : 'Unknown error';
                 logger.error('Summarization error:', error);
+                refundCredits(req, getFeatureCredits('summarization'));
                 return res.status(500).json({
                     success: false,
                     error: 'Failed to summarize text',
@@ -148,7 +138,9 @@ router.post('/process', permitAuth, async (req: Request, res: Response) => {
 
         res.json({
             success: true,
-            content: processedText
+            content: processedText,
+            deniedFeatures: req.features?.denied || [],
+            ...getCreditSummary(req)
         });
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
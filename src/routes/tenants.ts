@@ -0,0 +1,119 @@
+import express from 'express';
+import winston from 'winston';
+import { TIERS } from '../utils/apiKeyStore';
+import { isValidDomainPattern } from '../utils/domainPattern';
+import { deleteTenant, getTenant, isValidTenantId, listTenants, upsertTenant } from '../utils/tenantStore';
+import { getDecisionEngine } from '../utils/decisionEngine';
+
+const router = express.Router();
+const logger = winston.createLogger({
+    level: 'debug',
+    format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+    ),
+    defaultMeta: { service: 'tenants-router' },
+    transports: [
+        new winston.transports.Console({
+            format: winston.format.combine(
+                winston.format.colorize(),
+                winston.format.simple()
+            )
+        })
+    ]
+});
+
+// Returns an error message, or null when the settings are valid
+const validateTenantSettings = (body: any): string | null => {
+    const { name, rateLimits, premiumDomains } = body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        return 'name must be a non-empty string';
+    }
+
+    if (rateLimits !== undefined) {
+        if (typeof rateLimits !== 'object' || rateLimits === null || Array.isArray(rateLimits)) {
+            return 'rateLimits must be an object keyed by tier';
+        }
+        for (const [tier, limit] of Object.entries(rateLimits)) {
+            if (!(TIERS as string[]).includes(tier)) {
+                return `Unknown tier in rateLimits: ${tier}`;
+            }
+            if (!Number.isInteger(limit) || (limit as number) < 1) {
+                return `rateLimits.${tier} must be a positive integer`;
+            }
+        }
+    }
+
+    if (premiumDomains !== undefined &&
+        (!Array.isArray(premiumDomains) ||
+            premiumDomains.some(domain => typeof domain !== 'string' || !isValidDomainPattern(domain.toLowerCase())))) {
+        return 'premiumDomains must be an array of domains, optionally with * wildcards';
+    }
+
+    return null;
+};
+
+// List all tenants
+router.get('/', (req, res) => {
+    res.json(listTenants());
+});
+
+// Get a single tenant
+router.get('/:id', (req, res) => {
+    const tenant = getTenant(req.params.id);
+    if (!tenant) {
+        return res.status(404).json({ error: 'Tenant not found' });
+    }
+    res.json(tenant);
+});
+
+// Create or update a tenant and register it with the decision engine
+router.put('/:id', async (req, res) => {
+    const { id } = req.params;
+
+    if (!isValidTenantId(id)) {
+        return res.status(400).json({ error: 'Tenant id must be lowercase letters, digits, dashes or underscores' });
+    }
+
+    const validationError = validateTenantSettings(req.body);
+    if (validationError) {
+        return res.status(400).json({ error: validationError });
+    }
+
+    try {
+        const created = !getTenant(id);
+        const tenant = upsertTenant(id, {
+            name: req.body.name,
+            rateLimits: req.body.rateLimits,
+            premiumDomains: req.body.premiumDomains
+        });
+
+        try {
+            await getDecisionEngine().syncTenant(tenant.id, tenant.name);
+        } catch (error: any) {
+            // The tenant is stored locally either way; syncing is retried on the next update
+            logger.warn(`Failed to sync tenant ${tenant.id} with the decision engine: ${error.message || error}`);
+        }
+
+        res.status(created ? 201 : 200).json({ success: true, tenant });
+    } catch (error) {
+        logger.error('Error saving tenant:', error);
+        res.status(500).json({ error: 'Failed to save tenant' });
+    }
+});
+
+// Delete a tenant; keys still issued to it fall back to the default settings
+router.delete('/:id', (req, res) => {
+    try {
+        if (!deleteTenant(req.params.id)) {
+            return res.status(404).json({ error: 'Tenant not found or cannot be deleted' });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        logger.error('Error deleting tenant:', error);
+        res.status(500).json({ error: 'Failed to delete tenant' });
+    }
+});
+
+export default router;
@@ -0,0 +1,46 @@
+import express from 'express';
+import winston from 'winston';
+import { getQuotaLimits, getQuotaSubject, getQuotaUsage } from '../utils/quota';
+
+const router = express.Router();
+const logger = winston.createLogger({
+    level: 'debug',
+    format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+    ),
+    defaultMeta: { service: 'usage-router' },
+    transports: [
+        new winston.transports.Console({
+            format: winston.format.combine(
+                winston.format.colorize(),
+                winston.format.simple()
+            )
+        })
+    ]
+});
+
+// Get the caller's quota usage for every window
+router.get('/', async (req, res) => {
+    const record = req.apiKey;
+    if (!record) {
+        return res.status(401).json({ error: 'Invalid or missing API key' });
+    }
+
+    try {
+        const limits = getQuotaLimits(record);
+        const usage = await getQuotaUsage(getQuotaSubject(record, req.ip), limits);
+        res.json({
+            keyId: record.id,
+            userKey: record.userKey,
+            tier: record.tier,
+            tenant: record.tenant,
+            usage
+        });
+    } catch (error) {
+        logger.error('Error fetching usage:', error);
+        res.status(500).json({ error: 'Failed to fetch usage' });
+    }
+});
+
+export default router;
@@ -0,0 +1,378 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import winston from 'winston';
+import dotenv from 'dotenv';
+import { DEFAULT_TENANT } from './tenantStore';
+import { QuotaLimits } from './quota';
+import { writeFileAtomic } from './atomicWrite';
+
+// Ensure environment variables are loaded before seeding legacy keys
+dotenv.config();
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'api-key-store' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+export type Tier = 'admin' | 'pro_user' | 'free_user';
+
+export const TIERS: Tier[] = ['admin', 'pro_user', 'free_user'];
+
+/**
+ * A single issued API key and the identity it resolves to.
+ * Only a salted hash of the secret is ever stored.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  prefix: string;
+  hash: string;
+  salt: string;
+  legacy?: boolean;
+  userKey: string;
+  tenant: string;
+  tier: Tier;
+  ownerEmail: string;
+  createdAt: string;
+  expiresAt: string | null;
+  revoked: boolean;
+  revokedAt?: string;
+  // Per-key overrides of the tier's quota windows
+  quotas?: Partial<QuotaLimits>;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+}
+
+/**
+ * Key record without its hash and salt, safe to return from the API
+ */
+export type PublicApiKeyRecord = Omit<ApiKeyRecord, 'hash' | 'salt'>;
+
+/**
+ * A freshly issued key; `apiKey` is the only time the full secret is available
+ */
+export interface IssuedApiKey {
+  apiKey: string;
+  record: ApiKeyRecord;
+}
+
+/**
+ * Options accepted when issuing a new key
+ */
+export interface CreateApiKeyOptions {
+  tier: Tier;
+  tenant?: string;
+  ownerEmail: string;
+  userKey?: string;
+  expiresAt?: string | null;
+  quotas?: Partial<QuotaLimits>;
+}
+
+// Store API keys in a JSON file next to the blacklist
+const API_KEYS_FILE = process.env.API_KEYS_FILE || path.join(__dirname, '../../data/api_keys.json');
+
+// Keys look like sb_<prefix>_<secret>
+const API_KEY_PATTERN = /^sb_([a-f0-9]{8})_([A-Za-z0-9_-]+)$/;
+
+// Last-used stamps are batched instead of rewriting the file on every request
+const LAST_USED_SAVE_DELAY = 5000;
+
+// Legacy env keys are seeded on first start so existing deployments keep working
+const LEGACY_ENV_KEYS: { env: string, userKey: string, tier: Tier }[] = [
+  { env: 'ADMIN_API_KEY', userKey: '2025DEVChallenge_admin', tier: 'admin' },
+  { env: 'PRO_API_KEY', userKey: '2025DEVChallenge_pro', tier: 'pro_user' },
+  { env: 'FREE_API_KEY', userKey: '2025DEVChallenge_user', tier: 'free_user' }
+];
+
+// Ensure data directory exists
+if (!fs.existsSync(path.dirname(API_KEYS_FILE))) {
+  fs.mkdirSync(path.dirname(API_KEYS_FILE), { recursive: true });
+}
+
+// Keyed by record id
+const apiKeys = new Map<string, ApiKeyRecord>();
+let pendingSave: NodeJS.Timeout | null = null;
+
+// Save registry to file
+const saveApiKeys = () => {
+  if (pendingSave) {
+    clearTimeout(pendingSave);
+    pendingSave = null;
+  }
+  writeFileAtomic(API_KEYS_FILE, JSON.stringify(Array.from(apiKeys.values()), null, 2));
+};
+
+const scheduleSave = () => {
+  if (pendingSave) return;
+  pendingSave = setTimeout(saveApiKeys, LAST_USED_SAVE_DELAY);
+  pendingSave.unref();
+};
+
+function generateId(): string {
+  return crypto.randomBytes(6).toString('hex');
+}
+
+function generatePrefix(): string {
+  return crypto.randomBytes(4).toString('hex');
+}
+
+function generateSecret(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+function hashSecret(secret: string, salt: string): string {
+  return crypto.createHash('sha256').update(`${salt}:${secret}`).digest('hex');
+}
+
+function verifySecret(record: ApiKeyRecord, secret: string): boolean {
+  const expected = Buffer.from(record.hash, 'hex');
+  const actual = Buffer.from(hashSecret(secret, record.salt), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Set a new secret on a record, returning the full key to hand out
+ */
+function assignSecret(record: ApiKeyRecord): string {
+  const prefix = generatePrefix();
+  const secret = generateSecret();
+  record.prefix = prefix;
+  record.salt = crypto.randomBytes(16).toString('hex');
+  record.hash = hashSecret(secret, record.salt);
+  delete record.legacy;
+  return `sb_${prefix}_${secret}`;
+}
+
+/**
+ * Hash a key that predates the sb_ format (env keys and plaintext registry entries)
+ */
+function assignLegacySecret(record: ApiKeyRecord, apiKey: string): void {
+  record.prefix = 'legacy';
+  record.salt = crypto.randomBytes(16).toString('hex');
+  record.hash = hashSecret(apiKey, record.salt);
+  record.legacy = true;
+}
+
+function findByKey(apiKey: string): ApiKeyRecord | undefined {
+  const match = API_KEY_PATTERN.exec(apiKey);
+
+  if (match) {
+    const [, prefix, secret] = match;
+    for (const record of apiKeys.values()) {
+      if (record.prefix === prefix && !record.legacy) {
+        return verifySecret(record, secret) ? record : undefined;
+      }
+    }
+    return undefined;
+  }
+
+  // Legacy keys have no prefix to look up by, so verify against each of them
+  for (const record of apiKeys.values()) {
+    if (record.legacy && verifySecret(record, apiKey)) {
+      return record;
+    }
+  }
+  return undefined;
+}
+
+// Load existing keys from disk, hashing any plaintext keys left by older versions
+try {
+  const data = fs.readFileSync(API_KEYS_FILE, 'utf8');
+  let migrated = 0;
+
+  (JSON.parse(data) as (ApiKeyRecord & { key?: string })[]).forEach(record => {
+    if (record.key) {
+      assignLegacySecret(record, record.key);
+      delete record.key;
+      migrated++;
+    }
+    // Keys issued before tenants existed belong to the default tenant
+    record.tenant = record.tenant || DEFAULT_TENANT;
+    apiKeys.set(record.id, record);
+  });
+
+  if (migrated > 0) {
+    saveApiKeys();
+    logger.info(`Migrated ${migrated} plaintext API keys to hashed storage`);
+  }
+} catch (error) {
+  logger.info('No API key registry found, starting with an empty one');
+}
+
+function seedLegacyKeys(): void {
+  let seeded = 0;
+
+  for (const legacy of LEGACY_ENV_KEYS) {
+    const value = process.env[legacy.env];
+    if (!value || findByKey(value)) {
+      continue;
+    }
+
+    const record = {
+      id: generateId(),
+      userKey: legacy.userKey,
+      tenant: DEFAULT_TENANT,
+      tier: legacy.tier,
+      ownerEmail: `${legacy.userKey}@scrapebase.xyz`,
+      createdAt: new Date().toISOString(),
+      expiresAt: null,
+      revoked: false
+    } as ApiKeyRecord;
+    assignLegacySecret(record, value);
+    apiKeys.set(record.id, record);
+    seeded++;
+  }
+
+  if (seeded > 0) {
+    saveApiKeys();
+    logger.info(`Seeded ${seeded} API keys from environment variables`);
+  }
+}
+
+seedLegacyKeys();
+
+/**
+ * Check whether a value is a known tier
+ */
+export function isTier(value: unknown): value is Tier {
+  return typeof value === 'string' && (TIERS as string[]).includes(value);
+}
+
+/**
+ * Resolve an API key to its record, or null if it is unknown, revoked or expired
+ */
+export function resolveApiKey(apiKey: string | undefined): ApiKeyRecord | null {
+  if (!apiKey) {
+    return null;
+  }
+
+  const record = findByKey(apiKey);
+  if (!record || record.revoked) {
+    return null;
+  }
+
+  if (record.expiresAt && new Date(record.expiresAt).getTime() <= Date.now()) {
+    return null;
+  }
+
+  return record;
+}
+
+/**
+ * Stamp a key with the time and IP of an authenticated request
+ */
+export function recordApiKeyUse(record: ApiKeyRecord, ip: string | undefined): void {
+  record.lastUsedAt = new Date().toISOString();
+  record.lastUsedIp = ip;
+  scheduleSave();
+}
+
+/**
+ * Issue a new API key
+ */
+export function createApiKey(options: CreateApiKeyOptions): IssuedApiKey {
+  const id = generateId();
+  const record = {
+    id,
+    userKey: options.userKey || `user_${id}`,
+    tenant: options.tenant || DEFAULT_TENANT,
+    tier: options.tier,
+    ownerEmail: options.ownerEmail,
+    createdAt: new Date().toISOString(),
+    expiresAt: options.expiresAt || null,
+    revoked: false,
+    ...(options.quotas ? { quotas: options.quotas } : {})
+  } as ApiKeyRecord;
+  const apiKey = assignSecret(record);
+
+  apiKeys.set(id, record);
+  saveApiKeys();
+  logger.info(`Created API key ${id} (sb_${record.prefix}) for ${record.userKey} (${record.tier}, tenant ${record.tenant})`);
+  return { apiKey, record };
+}
+
+/**
+ * List all API keys, including revoked and expired ones
+ */
+export function listApiKeys(): ApiKeyRecord[] {
+  return Array.from(apiKeys.values());
+}
+
+/**
+ * Get a single API key record by id
+ */
+export function getApiKey(id: string): ApiKeyRecord | null {
+  return apiKeys.get(id) || null;
+}
+
+/**
+ * Replace the secret of an existing key, keeping its identity and tier
+ */
+export function rotateApiKey(id: string): IssuedApiKey | null {
+  const record = apiKeys.get(id);
+  if (!record || record.revoked) {
+    return null;
+  }
+
+  const apiKey = assignSecret(record);
+  saveApiKeys();
+  logger.info(`Rotated API key ${id} (now sb_${record.prefix}) for ${record.userKey}`);
+  return { apiKey, record };
+}
+
+/**
+ * Replace a key's quota overrides; null clears them so the tier defaults apply
+ */
+export function setApiKeyQuotas(id: string, quotas: Partial<QuotaLimits> | null): ApiKeyRecord | null {
+  const record = apiKeys.get(id);
+  if (!record) {
+    return null;
+  }
+
+  if (quotas && Object.keys(quotas).length > 0) {
+    record.quotas = quotas;
+  } else {
+    delete record.quotas;
+  }
+  saveApiKeys();
+  logger.info(`Updated quotas of API key ${id} for ${record.userKey}`);
+  return record;
+}
+
+/**
+ * Revoke an API key so it can no longer be used
+ */
+export function revokeApiKey(id: string): ApiKeyRecord | null {
+  const record = apiKeys.get(id);
+  if (!record) {
+    return null;
+  }
+
+  if (!record.revoked) {
+    record.revoked = true;
+    record.revokedAt = new Date().toISOString();
+    saveApiKeys();
+    logger.info(`Revoked API key ${id} for ${record.userKey}`);
+  }
+  return record;
+}
+
+/**
+ * Strip the hash and salt from a record before it leaves the server
+ */
+export function toPublicApiKey(record: ApiKeyRecord): PublicApiKeyRecord {
+  const { hash, salt, ...publicRecord } = record;
+  return publicRecord;
+}
@@ -0,0 +1,17 @@
+import fs from 'fs';
+
+/**
+ * Replace a file's contents by writing a temporary file next to it and renaming it
+ * into place, so a crash mid-write never leaves a truncated file behind
+ */
+export function writeFileAtomic(file: string, data: string): void {
+  const tempFile = `${file}.${process.pid}.tmp`;
+  const fd = fs.openSync(tempFile, 'w');
+  try {
+    fs.writeSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempFile, file);
+}
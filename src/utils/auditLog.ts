@@ -0,0 +1,158 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'audit-log' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+/**
+ * A single authorization decision as stored in the audit log
+ */
+export interface AuditEntry {
+  timestamp: string;
+  requestId: string;
+  userKey: string;
+  tier: string;
+  tenant: string;
+  action: string;
+  resourceType: string;
+  resourceKey: string;
+  attributes: Record<string, any>;
+  decision: 'allow' | 'deny';
+  reason: string;
+  engine?: string;
+  policy?: string;
+  degraded?: boolean;
+  latencyMs: number;
+}
+
+/**
+ * Filters accepted by queryAudit; all are optional and combined with AND
+ */
+export interface AuditQuery {
+  tenant?: string;
+  user?: string;
+  domain?: string;
+  action?: string;
+  decision?: 'allow' | 'deny';
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Append-only JSONL audit store
+const AUDIT_LOG_FILE = process.env.AUDIT_LOG_FILE || path.join(__dirname, '../../data/audit.jsonl');
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 5000;
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'timestamp', 'requestId', 'userKey', 'tier', 'tenant', 'action', 'resourceType', 'resourceKey',
+  'attributes', 'decision', 'reason', 'engine', 'policy', 'degraded', 'latencyMs'
+];
+
+// Ensure data directory exists
+if (!fs.existsSync(path.dirname(AUDIT_LOG_FILE))) {
+  fs.mkdirSync(path.dirname(AUDIT_LOG_FILE), { recursive: true });
+}
+
+// A single append stream keeps entries in order without blocking requests
+const auditStream = fs.createWriteStream(AUDIT_LOG_FILE, { flags: 'a' });
+auditStream.on('error', (error) => {
+  logger.error('Audit log write error:', error);
+});
+
+/**
+ * Append an authorization decision to the audit log
+ */
+export function recordAuditEntry(entry: Omit<AuditEntry, 'timestamp'>): void {
+  const line = JSON.stringify({ timestamp: new Date().toISOString(), ...entry });
+  auditStream.write(line + '\n');
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  // Entries written before tenants existed belong to the default tenant
+  if (query.tenant && (entry.tenant || 'default') !== query.tenant) return false;
+  if (query.user && entry.userKey !== query.user) return false;
+  if (query.action && entry.action !== query.action) return false;
+  if (query.decision && entry.decision !== query.decision) return false;
+
+  if (query.domain) {
+    const domain = query.domain.toLowerCase();
+    const resourceKey = (entry.resourceKey || '').toLowerCase();
+    if (resourceKey !== domain && !resourceKey.endsWith(`.${domain}`)) return false;
+  }
+
+  const time = new Date(entry.timestamp).getTime();
+  if (query.from && time < query.from.getTime()) return false;
+  if (query.to && time > query.to.getTime()) return false;
+
+  return true;
+}
+
+/**
+ * Read matching audit entries, newest first
+ */
+export async function queryAudit(query: AuditQuery = {}): Promise<AuditEntry[]> {
+  const limit = Math.min(Math.max(query.limit || DEFAULT_QUERY_LIMIT, 1), MAX_QUERY_LIMIT);
+  const matches: AuditEntry[] = [];
+
+  if (!fs.existsSync(AUDIT_LOG_FILE)) {
+    return matches;
+  }
+
+  const lines = readline.createInterface({
+    input: fs.createReadStream(AUDIT_LOG_FILE, 'utf8'),
+    crlfDelay: Infinity
+  });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      // Skip a partially written trailing line
+      continue;
+    }
+
+    if (matchesQuery(entry, query)) {
+      matches.push(entry);
+      // Only keep the most recent `limit` matches in memory
+      if (matches.length > limit) {
+        matches.shift();
+      }
+    }
+  }
+
+  return matches.reverse();
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render audit entries as CSV with a header row
+ */
+export function auditToCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => csvCell(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,219 @@
+import winston from 'winston';
+import { AuthzCheck, AuthzDecision, AuthzResource, DecisionEngine, PermitUser } from './decisionEngine';
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'authz-cache' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+const DECISION_CACHE_TTL = parseInt(process.env.AUTHZ_CACHE_TTL || '60000', 10);
+const DECISION_CACHE_MAX_ENTRIES = parseInt(process.env.AUTHZ_CACHE_MAX_ENTRIES || '10000', 10);
+
+interface CachedDecision {
+  decision: AuthzDecision;
+  expiresAt: number;
+}
+
+export interface AuthzCacheStats {
+  ttlMs: number;
+  decisions: { hits: number, misses: number, size: number };
+  userSync: { hits: number, misses: number, size: number };
+}
+
+// Serialize attributes with sorted keys so equal attribute sets share a cache key
+function stableStringify(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+}
+
+// Only the fields that affect decisions trigger a re-sync
+function userFingerprint(user: PermitUser): string {
+  return stableStringify({
+    email: user.email,
+    tier: user.attributes?.tier,
+    roles: [...(user.attributes?.roles || [])].sort()
+  });
+}
+
+// The count changes on every request, so decisions are keyed on where it sits relative to each
+// threshold the policies compare it against ('<', '=' or '>'), which is all a decision can depend on
+function rateLimitBand(requestsPerHour: number | undefined, thresholds: number[]): string {
+  if (requestsPerHour === undefined) return '';
+  return thresholds
+    .map(threshold => requestsPerHour < threshold ? '<' : requestsPerHour === threshold ? '=' : '>')
+    .join('');
+}
+
+/**
+ * In-process cache of authorization decisions and synced users
+ */
+class AuthzCache {
+  private decisions = new Map<string, CachedDecision>();
+  private syncedUsers = new Map<string, string>();
+  private decisionHits = 0;
+  private decisionMisses = 0;
+  private syncHits = 0;
+  private syncMisses = 0;
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries: number
+  ) {}
+
+  decisionKey(user: PermitUser, action: string, resource: AuthzResource, tenant: string, rateLimitThresholds: number[] = []): string {
+    return [
+      tenant,
+      user.key,
+      userFingerprint(user),
+      rateLimitBand(user.attributes?.requests_per_hour, rateLimitThresholds),
+      action,
+      resource.type,
+      resource.key,
+      stableStringify(resource.attributes)
+    ].join('|');
+  }
+
+  getDecision(key: string): AuthzDecision | null {
+    const cached = this.decisions.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      this.decisionHits++;
+      return cached.decision;
+    }
+
+    if (cached) {
+      this.decisions.delete(key);
+    }
+    this.decisionMisses++;
+    return null;
+  }
+
+  setDecision(key: string, decision: AuthzDecision): void {
+    if (this.ttlMs <= 0) return;
+
+    // Evict the oldest entry once the cache is full
+    if (this.decisions.size >= this.maxEntries) {
+      const oldest = this.decisions.keys().next().value;
+      if (oldest !== undefined) this.decisions.delete(oldest);
+    }
+    this.decisions.set(key, { decision, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  isUserSynced(user: PermitUser): boolean {
+    if (this.syncedUsers.get(user.key) === userFingerprint(user)) {
+      this.syncHits++;
+      return true;
+    }
+    this.syncMisses++;
+    return false;
+  }
+
+  markUserSynced(user: PermitUser): void {
+    this.syncedUsers.set(user.key, userFingerprint(user));
+  }
+
+  /**
+   * Drop all cached decisions and synced users
+   */
+  flush(): { decisions: number, users: number } {
+    const flushed = { decisions: this.decisions.size, users: this.syncedUsers.size };
+    this.decisions.clear();
+    this.syncedUsers.clear();
+    logger.info(`Flushed authorization cache (${flushed.decisions} decisions, ${flushed.users} users)`);
+    return flushed;
+  }
+
+  getStats(): AuthzCacheStats {
+    return {
+      ttlMs: this.ttlMs,
+      decisions: { hits: this.decisionHits, misses: this.decisionMisses, size: this.decisions.size },
+      userSync: { hits: this.syncHits, misses: this.syncMisses, size: this.syncedUsers.size }
+    };
+  }
+}
+
+// Export a singleton instance
+export const authzCache = new AuthzCache(DECISION_CACHE_TTL, DECISION_CACHE_MAX_ENTRIES);
+
+/**
+ * Wraps an engine so repeated checks and unchanged users skip the round trip.
+ * Errors are never cached, so failure modes still apply on every call.
+ */
+export class CachingDecisionEngine implements DecisionEngine {
+  public readonly name: string;
+
+  constructor(
+    private readonly engine: DecisionEngine,
+    private readonly cache = authzCache,
+    // Values the policies compare `requests_per_hour` against
+    private readonly rateLimitThresholds: () => number[] = () => []
+  ) {
+    this.name = engine.name;
+  }
+
+  async syncUser(user: PermitUser): Promise<void> {
+    if (this.cache.isUserSynced(user)) {
+      return;
+    }
+    await this.engine.syncUser(user);
+    this.cache.markUserSynced(user);
+  }
+
+  async syncTenant(key: string, name: string): Promise<void> {
+    await this.engine.syncTenant(key, name);
+  }
+
+  async syncResourceInstance(resource: AuthzResource, tenant: string): Promise<void> {
+    await this.engine.syncResourceInstance(resource, tenant);
+  }
+
+  async deleteResourceInstance(type: string, key: string): Promise<void> {
+    await this.engine.deleteResourceInstance(type, key);
+  }
+
+  async check(user: PermitUser, action: string, resource: AuthzResource, tenant: string): Promise<AuthzDecision> {
+    const key = this.cache.decisionKey(user, action, resource, tenant, this.rateLimitThresholds());
+    const cached = this.cache.getDecision(key);
+    if (cached) {
+      return cached;
+    }
+
+    const decision = await this.engine.check(user, action, resource, tenant);
+    this.cache.setDecision(key, decision);
+    return decision;
+  }
+
+  async bulkCheck(user: PermitUser, checks: AuthzCheck[], tenant: string): Promise<AuthzDecision[]> {
+    const thresholds = this.rateLimitThresholds();
+    const keys = checks.map(({ action, resource }) => this.cache.decisionKey(user, action, resource, tenant, thresholds));
+    const decisions = keys.map(key => this.cache.getDecision(key));
+
+    // Only the checks that missed the cache go to the engine, in a single batch
+    const missing = decisions.flatMap((decision, index) => decision ? [] : [index]);
+    if (missing.length > 0) {
+      const fetched = await this.engine.bulkCheck(user, missing.map(index => checks[index]), tenant);
+      missing.forEach((index, position) => {
+        decisions[index] = fetched[position];
+        this.cache.setDecision(keys[index], fetched[position]);
+      });
+    }
+
+    return decisions as AuthzDecision[];
+  }
+}
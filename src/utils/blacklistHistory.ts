@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import winston from 'winston';
+import { BlacklistEntry } from './blacklistRules';
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'blacklist-history' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+export type BlacklistEventType = 'add' | 'edit' | 'remove' | 'expire';
+
+/**
+ * A single change to a blacklist entry
+ */
+export interface BlacklistEvent {
+  timestamp: string;
+  event: BlacklistEventType;
+  tenant: string;
+  pattern: string;
+  // Key and user that made the change; absent for changes made by the server itself
+  actor?: { keyId: string, userKey: string };
+  // Entry after the change, or before it for remove and expire events
+  entry: BlacklistEntry;
+}
+
+// Append-only JSONL history, kept next to the blacklist
+const HISTORY_FILE = process.env.BLACKLIST_HISTORY_FILE || path.join(__dirname, '../../data/blacklist_history.jsonl');
+
+// Ensure data directory exists
+if (!fs.existsSync(path.dirname(HISTORY_FILE))) {
+  fs.mkdirSync(path.dirname(HISTORY_FILE), { recursive: true });
+}
+
+const historyStream = fs.createWriteStream(HISTORY_FILE, { flags: 'a' });
+historyStream.on('error', (error) => {
+  logger.error('Blacklist history write error:', error);
+});
+
+/**
+ * Append a change to the blacklist history
+ */
+export function recordBlacklistEvent(event: Omit<BlacklistEvent, 'timestamp'>): void {
+  historyStream.write(JSON.stringify({ timestamp: new Date().toISOString(), ...event }) + '\n');
+}
+
+/**
+ * Read the changes made to a pattern in a tenant, oldest first
+ */
+export async function getBlacklistHistory(tenant: string, pattern: string): Promise<BlacklistEvent[]> {
+  const events: BlacklistEvent[] = [];
+
+  if (!fs.existsSync(HISTORY_FILE)) {
+    return events;
+  }
+
+  const lines = readline.createInterface({
+    input: fs.createReadStream(HISTORY_FILE, 'utf8'),
+    crlfDelay: Infinity
+  });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    try {
+      const event = JSON.parse(line) as BlacklistEvent;
+      if (event.tenant === tenant && event.pattern === pattern) {
+        events.push(event);
+      }
+    } catch (error) {
+      // Skip a partially written trailing line
+    }
+  }
+
+  return events;
+}
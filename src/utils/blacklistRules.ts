@@ -0,0 +1,213 @@
+import net from 'net';
+import validator from 'validator';
+import { isValidDomainPattern, matchesDomainPattern } from './domainPattern';
+
+/**
+ * How a blacklist rule matches a hostname:
+ * - exact: the hostname itself only
+ * - domain: the domain and all of its subdomains
+ * - glob: `*` matches any characters, e.g. `*.tracker.*` (see domainPattern.ts)
+ * - regex: a case-insensitive regular expression tested against the hostname,
+ *   limited to MAX_REGEX_LENGTH characters and without nested repetition
+ * - cidr: an IP address or range, matched when the URL uses an IP literal
+ */
+export type BlacklistRuleType = 'exact' | 'domain' | 'glob' | 'regex' | 'cidr';
+
+export const BLACKLIST_RULE_TYPES: BlacklistRuleType[] = ['exact', 'domain', 'glob', 'regex', 'cidr'];
+
+export interface BlacklistRule {
+  type: BlacklistRuleType;
+  pattern: string;
+}
+
+/**
+ * A stored blacklist rule with who added it, why and until when
+ */
+export interface BlacklistEntry extends BlacklistRule {
+  reason?: string;
+  addedBy?: { keyId: string, userKey: string };
+  createdAt: string;
+  updatedAt?: string;
+  // Entries lapse automatically after this time; null means never
+  expiresAt: string | null;
+}
+
+/**
+ * Whether an entry's expiry has passed
+ */
+export function isEntryExpired(entry: BlacklistEntry, now: number = Date.now()): boolean {
+  return !!entry.expiresAt && new Date(entry.expiresAt).getTime() <= now;
+}
+
+export function isBlacklistRuleType(value: unknown): value is BlacklistRuleType {
+  return typeof value === 'string' && (BLACKLIST_RULE_TYPES as string[]).includes(value);
+}
+
+// Compiled matchers for glob, regex and cidr rules, keyed by type and pattern
+const matcherCache = new Map<string, (host: string) => boolean>();
+
+function parseCidr(pattern: string): { address: string, prefix: number, family: 'ipv4' | 'ipv6' } | null {
+  const [address, prefixText] = pattern.split('/');
+  const version = net.isIP(address);
+  if (version === 0) return null;
+
+  const family = version === 4 ? 'ipv4' : 'ipv6';
+  const maxPrefix = version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) return null;
+
+  return { address, prefix, family };
+}
+
+export const MAX_REGEX_LENGTH = 200;
+
+/**
+ * Why a regex could backtrack catastrophically, or null when it looks safe. Rejects
+ * backreferences and groups repeated with `*`, `+` or `{n,}` that themselves contain
+ * a quantifier or an alternation, like `(a+)+` or `(a|ab)*`.
+ */
+function findUnsafeRegex(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    return `Regular expressions are limited to ${MAX_REGEX_LENGTH} characters`;
+  }
+
+  // Whether each open group (and the top level) contains a quantifier or alternation
+  const groups: boolean[] = [false];
+  let closedGroupRepeats = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    const repeatable = closedGroupRepeats;
+    closedGroupRepeats = false;
+
+    if (ch === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) return 'Backreferences are not allowed in regex rules';
+      i++;
+    } else if (ch === '[') {
+      // Skip the character class; quantifiers inside it are literals
+      i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        if (pattern[i] === '\\') i++;
+        i++;
+      }
+    } else if (ch === '(') {
+      groups.push(false);
+    } else if (ch === ')') {
+      closedGroupRepeats = groups.pop() === true;
+      // A nested group's repetition also counts for the group around it
+      groups[groups.length - 1] = groups[groups.length - 1] || closedGroupRepeats;
+    } else if (ch === '|' || ch === '*' || ch === '+' || ch === '{' || (ch === '?' && pattern[i - 1] !== '(')) {
+      if (repeatable && (ch === '*' || ch === '+' || /^\{\d*,/.test(pattern.slice(i)))) {
+        return 'Nested quantifiers and repeated alternations are not allowed in regex rules';
+      }
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return null;
+}
+
+function compileMatcher(rule: BlacklistRule): (host: string) => boolean {
+  switch (rule.type) {
+    case 'glob':
+      return host => matchesDomainPattern(host, rule.pattern);
+    case 'regex': {
+      // Rules stored before the safety check existed never match rather than risk a hang
+      if (findUnsafeRegex(rule.pattern)) return () => false;
+      const regex = new RegExp(rule.pattern, 'i');
+      return host => regex.test(host);
+    }
+    case 'cidr': {
+      const cidr = parseCidr(rule.pattern);
+      if (!cidr) return () => false;
+      const blockList = new net.BlockList();
+      blockList.addSubnet(cidr.address, cidr.prefix, cidr.family);
+      return host => {
+        const version = net.isIP(host);
+        return version !== 0 && blockList.check(host, version === 4 ? 'ipv4' : 'ipv6');
+      };
+    }
+    case 'exact':
+      return host => host === rule.pattern;
+    case 'domain':
+    default:
+      return host => matchesDomainPattern(host, rule.pattern);
+  }
+}
+
+/**
+ * Guess the rule type for a bare pattern: `/.../` is a regex, IPs and ranges are cidr,
+ * patterns with `*` are globs and anything else blocks the domain and its subdomains
+ */
+export function inferRuleType(pattern: string): BlacklistRuleType {
+  if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) return 'regex';
+  if (parseCidr(pattern)) return 'cidr';
+  if (pattern.includes('*')) return 'glob';
+  return 'domain';
+}
+
+/**
+ * Build a validated rule from user input; throws with a readable message when invalid
+ */
+export function createBlacklistRule(input: string, type?: BlacklistRuleType): BlacklistRule {
+  const raw = input.trim();
+  const ruleType = type || inferRuleType(raw);
+  // Regexes keep their case and lose the surrounding slashes; everything else is a lowercase hostname
+  const pattern = ruleType === 'regex'
+    ? raw.replace(/^\/(.*)\/$/, '$1')
+    : raw.toLowerCase();
+
+  if (!pattern) {
+    throw new Error('Pattern is required');
+  }
+
+  switch (ruleType) {
+    case 'exact':
+    case 'domain':
+      if (!validator.isFQDN(pattern, { require_tld: false, allow_underscores: true })) {
+        throw new Error(`Invalid hostname: ${pattern}`);
+      }
+      break;
+    case 'glob':
+      if (!pattern.includes('*') || !isValidDomainPattern(pattern)) {
+        throw new Error(`Invalid glob pattern: ${pattern}`);
+      }
+      break;
+    case 'regex': {
+      try {
+        new RegExp(pattern, 'i');
+      } catch (error: any) {
+        // SyntaxError messages already read "Invalid regular expression: ..."
+        throw new Error(error.message);
+      }
+      const unsafe = findUnsafeRegex(pattern);
+      if (unsafe) {
+        throw new Error(unsafe);
+      }
+      break;
+    }
+    case 'cidr':
+      if (!parseCidr(pattern)) {
+        throw new Error(`Invalid IP address or CIDR range: ${pattern}`);
+      }
+      break;
+  }
+
+  return { type: ruleType, pattern };
+}
+
+/**
+ * Check a hostname against a single rule
+ */
+export function matchesBlacklistRule(hostname: string, rule: BlacklistRule): boolean {
+  // IPv6 hostnames from URL parsing keep their brackets
+  const host = hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  const cacheKey = `${rule.type}:${rule.pattern}`;
+
+  let matcher = matcherCache.get(cacheKey);
+  if (!matcher) {
+    matcher = compileMatcher(rule);
+    matcherCache.set(cacheKey, matcher);
+  }
+  return matcher(host);
+}
@@ -0,0 +1,334 @@
+import fs from 'fs';
+import path from 'path';
+import winston from 'winston';
+import Database from 'better-sqlite3';
+import { DEFAULT_TENANT } from './tenantStore';
+import { BlacklistEntry } from './blacklistRules';
+import { writeFileAtomic } from './atomicWrite';
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'blacklist-store' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+/**
+ * Blacklist entries per tenant, as read from storage
+ */
+export type BlacklistSnapshot = Record<string, BlacklistEntry[]>;
+
+/**
+ * Persistent storage for blacklist entries.
+ *
+ * Writes are applied per entry so concurrent writers in other processes
+ * do not overwrite each other's changes, and `watch` reports changes made
+ * by other processes sharing the same storage.
+ */
+export interface BlacklistStore {
+  readonly name: string;
+  load(): BlacklistSnapshot;
+  upsert(tenant: string, entries: BlacklistEntry[]): void;
+  remove(tenant: string, patterns: string[]): void;
+  watch(onChange: () => void): void;
+  close(): void;
+}
+
+const DATA_DIR = path.join(__dirname, '../../data');
+const BLACKLIST_FILE = process.env.BLACKLIST_FILE || path.join(DATA_DIR, 'blacklist.json');
+const BLACKLIST_DB = process.env.BLACKLIST_DB || path.join(DATA_DIR, 'blacklist.db');
+
+// A lock older than this is assumed to belong to a crashed process
+const LOCK_STALE_MS = 10000;
+const LOCK_TIMEOUT_MS = 5000;
+// How often the SQLite store checks for commits from other processes
+const SQLITE_POLL_INTERVAL = parseInt(process.env.BLACKLIST_POLL_INTERVAL || '1000', 10);
+
+// Entries written before rule types existed are bare domains, which block the domain and its subdomains;
+// entries written before metadata existed have no creation time or expiry
+const toEntry = (entry: string | Partial<BlacklistEntry>, loadedAt: string): BlacklistEntry => {
+  if (typeof entry === 'string') {
+    return { type: 'domain', pattern: entry.toLowerCase(), createdAt: loadedAt, expiresAt: null };
+  }
+  return {
+    ...entry,
+    type: entry.type || 'domain',
+    pattern: entry.pattern || '',
+    createdAt: entry.createdAt || loadedAt,
+    expiresAt: entry.expiresAt ?? null
+  };
+};
+
+/**
+ * Parse the JSON file format, including files written before tenants existed,
+ * which hold a single global list
+ */
+function parseBlacklistFile(content: string): BlacklistSnapshot {
+  const data = JSON.parse(content);
+  const loadedAt = new Date().toISOString();
+
+  if (Array.isArray(data)) {
+    return { [DEFAULT_TENANT]: data.map(entry => toEntry(entry, loadedAt)) };
+  }
+
+  const snapshot: BlacklistSnapshot = {};
+  Object.entries(data as Record<string, (string | Partial<BlacklistEntry>)[]>).forEach(([tenant, entries]) => {
+    snapshot[tenant] = entries.map(entry => toEntry(entry, loadedAt));
+  });
+  return snapshot;
+}
+
+// Block the thread briefly; stores are synchronous so lookups never wait on I/O
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * JSON file store. Every write takes a lock file, re-reads the file, applies
+ * the change and replaces the file by renaming a temp file over it, so readers
+ * never see a partial write and a crash mid-write leaves the old file intact.
+ */
+class FileBlacklistStore implements BlacklistStore {
+  readonly name = 'file';
+  private readonly lockFile: string;
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly file: string) {
+    this.lockFile = `${file}.lock`;
+
+    if (!fs.existsSync(path.dirname(file))) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+    if (!fs.existsSync(file)) {
+      this.writeAtomic({ [DEFAULT_TENANT]: [] });
+    }
+  }
+
+  load(): BlacklistSnapshot {
+    try {
+      return parseBlacklistFile(fs.readFileSync(this.file, 'utf8'));
+    } catch (error) {
+      logger.error(`Could not read blacklist file ${this.file}, starting empty:`, error);
+      return { [DEFAULT_TENANT]: [] };
+    }
+  }
+
+  upsert(tenant: string, entries: BlacklistEntry[]): void {
+    this.update(snapshot => {
+      const byPattern = new Map((snapshot[tenant] || []).map(entry => [entry.pattern, entry]));
+      entries.forEach(entry => byPattern.set(entry.pattern, entry));
+      snapshot[tenant] = Array.from(byPattern.values());
+    });
+  }
+
+  remove(tenant: string, patterns: string[]): void {
+    const removed = new Set(patterns);
+    this.update(snapshot => {
+      snapshot[tenant] = (snapshot[tenant] || []).filter(entry => !removed.has(entry.pattern));
+    });
+  }
+
+  // The file is replaced on every write, so watch the directory rather than the file itself
+  watch(onChange: () => void): void {
+    if (this.watcher) return;
+
+    try {
+      this.watcher = fs.watch(path.dirname(this.file), (_event, filename) => {
+        if (filename !== path.basename(this.file)) return;
+        // Renames emit several events; reload once they settle
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          onChange();
+        }, 50);
+      });
+      this.watcher.unref();
+    } catch (error) {
+      logger.warn(`File watching is unavailable, changes from other processes will not be picked up: ${error}`);
+    }
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+  }
+
+  // Read, change and write the file while holding the lock; an unreadable file is left untouched
+  private update(change: (snapshot: BlacklistSnapshot) => void): void {
+    this.acquireLock();
+    try {
+      const snapshot = parseBlacklistFile(fs.readFileSync(this.file, 'utf8'));
+      change(snapshot);
+      this.writeAtomic(snapshot);
+    } finally {
+      this.releaseLock();
+    }
+  }
+
+  private writeAtomic(snapshot: BlacklistSnapshot): void {
+    writeFileAtomic(this.file, JSON.stringify(snapshot));
+  }
+
+  private acquireLock(): void {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    while (true) {
+      try {
+        fs.closeSync(fs.openSync(this.lockFile, 'wx'));
+        return;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+      }
+
+      // Break locks left behind by a process that died while writing
+      try {
+        if (Date.now() - fs.statSync(this.lockFile).mtimeMs > LOCK_STALE_MS) {
+          logger.warn(`Removing stale blacklist lock ${this.lockFile}`);
+          fs.unlinkSync(this.lockFile);
+          continue;
+        }
+      } catch (error) {
+        // The holder released the lock between our attempts
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for blacklist lock ${this.lockFile}`);
+      }
+      sleepSync(10);
+    }
+  }
+
+  private releaseLock(): void {
+    try {
+      fs.unlinkSync(this.lockFile);
+    } catch (error) {
+      logger.warn(`Blacklist lock ${this.lockFile} was already removed`);
+    }
+  }
+}
+
+/**
+ * SQLite store with one row per entry. WAL mode lets several processes read
+ * while one writes; commits by other connections are detected through
+ * `PRAGMA data_version`.
+ */
+class SqliteBlacklistStore implements BlacklistStore {
+  readonly name = 'sqlite';
+  private readonly db: Database.Database;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(file: string, legacyFile: string) {
+    if (!fs.existsSync(path.dirname(file))) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS blacklist_entries (
+        tenant TEXT NOT NULL,
+        pattern TEXT NOT NULL,
+        entry TEXT NOT NULL,
+        PRIMARY KEY (tenant, pattern)
+      )
+    `);
+
+    this.importLegacyFile(legacyFile);
+  }
+
+  load(): BlacklistSnapshot {
+    const rows = this.db.prepare('SELECT tenant, entry FROM blacklist_entries ORDER BY rowid')
+      .all() as { tenant: string, entry: string }[];
+    const snapshot: BlacklistSnapshot = { [DEFAULT_TENANT]: [] };
+    rows.forEach(row => {
+      (snapshot[row.tenant] = snapshot[row.tenant] || []).push(JSON.parse(row.entry));
+    });
+    return snapshot;
+  }
+
+  upsert(tenant: string, entries: BlacklistEntry[]): void {
+    const statement = this.db.prepare(`
+      INSERT INTO blacklist_entries (tenant, pattern, entry) VALUES (?, ?, ?)
+      ON CONFLICT (tenant, pattern) DO UPDATE SET entry = excluded.entry
+    `);
+    this.db.transaction(() => {
+      entries.forEach(entry => statement.run(tenant, entry.pattern, JSON.stringify(entry)));
+    })();
+  }
+
+  remove(tenant: string, patterns: string[]): void {
+    const statement = this.db.prepare('DELETE FROM blacklist_entries WHERE tenant = ? AND pattern = ?');
+    this.db.transaction(() => {
+      patterns.forEach(pattern => statement.run(tenant, pattern));
+    })();
+  }
+
+  // data_version only changes when another connection commits
+  watch(onChange: () => void): void {
+    if (this.pollTimer) return;
+
+    let version = this.db.pragma('data_version', { simple: true });
+    this.pollTimer = setInterval(() => {
+      try {
+        const current = this.db.pragma('data_version', { simple: true });
+        if (current !== version) {
+          version = current;
+          onChange();
+        }
+      } catch (error) {
+        logger.error('Error checking blacklist database for changes:', error);
+      }
+    }, SQLITE_POLL_INTERVAL);
+    this.pollTimer.unref();
+  }
+
+  close(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+    this.db.close();
+  }
+
+  // Seed an empty database from the JSON file used by the file store
+  private importLegacyFile(legacyFile: string): void {
+    const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM blacklist_entries').get() as { count: number };
+    if (count > 0 || !fs.existsSync(legacyFile)) return;
+
+    try {
+      const snapshot = parseBlacklistFile(fs.readFileSync(legacyFile, 'utf8'));
+      Object.entries(snapshot).forEach(([tenant, entries]) => this.upsert(tenant, entries));
+      logger.info(`Imported blacklist from ${legacyFile} into ${this.db.name}`);
+    } catch (error) {
+      logger.error(`Could not import blacklist from ${legacyFile}:`, error);
+    }
+  }
+}
+
+/**
+ * Create the store selected by BLACKLIST_STORE (`file` by default, or `sqlite`)
+ */
+export function createBlacklistStore(type: string = process.env.BLACKLIST_STORE || 'file'): BlacklistStore {
+  switch (type) {
+    case 'sqlite':
+      logger.info(`Using SQLite blacklist store at ${BLACKLIST_DB}`);
+      return new SqliteBlacklistStore(BLACKLIST_DB, BLACKLIST_FILE);
+    case 'file':
+      logger.info(`Using file blacklist store at ${BLACKLIST_FILE}`);
+      return new FileBlacklistStore(BLACKLIST_FILE);
+    default:
+      throw new Error(`Unknown BLACKLIST_STORE "${type}", expected file or sqlite`);
+  }
+}
@@ -0,0 +1,276 @@
+import { BlacklistEntry, BlacklistRuleType, isBlacklistRuleType } from './blacklistRules';
+
+/**
+ * Formats accepted by blacklist import
+ * - text: one pattern per line
+ * - csv: domain,type,reason,expiresAt with an optional header row
+ * - json: an array of patterns or entry objects
+ * - hosts: hosts-file lines such as `0.0.0.0 ads.example.com`
+ */
+export type BlacklistImportFormat = 'text' | 'csv' | 'json' | 'hosts';
+export type BlacklistExportFormat = 'csv' | 'json' | 'hosts';
+
+export const IMPORT_FORMATS: BlacklistImportFormat[] = ['text', 'csv', 'json', 'hosts'];
+export const EXPORT_FORMATS: BlacklistExportFormat[] = ['csv', 'json', 'hosts'];
+
+/**
+ * One entry read from an import, with the line it came from for error reporting
+ */
+export interface ImportRow {
+  line: number;
+  input: string;
+  domain: string;
+  type?: BlacklistRuleType;
+  reason?: string;
+  expiresAt?: string;
+}
+
+export interface ImportLineError {
+  line: number;
+  input: string;
+  error: string;
+}
+
+export interface ParsedImport {
+  format: BlacklistImportFormat;
+  rows: ImportRow[];
+  errors: ImportLineError[];
+}
+
+const CSV_COLUMNS = ['domain', 'type', 'reason', 'expiresAt', 'createdAt', 'addedBy', 'tenant'];
+
+// Addresses hosts files use to sink a hostname
+const HOSTS_SINKS = new Set(['0.0.0.0', '127.0.0.1', '::', '::1', '0:0:0:0:0:0:0:0']);
+// Names found in the preamble of most hosts files that should never be blacklisted
+const HOSTS_RESERVED = new Set(['localhost', 'localhost.localdomain', 'local', 'broadcasthost', 'ip6-localhost', 'ip6-loopback']);
+
+const stripComment = (line: string): string => line.replace(/(^|\s)#.*$/, '').trim();
+
+/**
+ * Guess the format of an import from its content
+ */
+export function detectImportFormat(content: string): BlacklistImportFormat {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json';
+
+  const lines = trimmed.split(/\r?\n/).map(stripComment).filter(Boolean);
+  if (lines.length > 0 && lines.every(line => HOSTS_SINKS.has(line.split(/\s+/)[0]))) return 'hosts';
+  if (lines.some(line => line.includes(','))) return 'csv';
+  return 'text';
+}
+
+// Split one CSV line, honouring quoted cells with doubled quotes
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function optionalType(value: unknown, line: number, input: string, errors: ImportLineError[]): BlacklistRuleType | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (isBlacklistRuleType(value)) return value;
+  errors.push({ line, input, error: `Unknown rule type: ${value}` });
+  return null;
+}
+
+function parseText(content: string, parsed: ParsedImport): void {
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const domain = stripComment(raw);
+    if (domain) {
+      parsed.rows.push({ line: index + 1, input: raw, domain });
+    }
+  });
+}
+
+function parseHosts(content: string, parsed: ParsedImport): void {
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const fields = stripComment(raw).split(/\s+/).filter(Boolean);
+    if (fields.length === 0) return;
+
+    if (!HOSTS_SINKS.has(fields[0]) || fields.length < 2) {
+      parsed.errors.push({ line: index + 1, input: raw, error: 'Expected "<address> <hostname>..."' });
+      return;
+    }
+
+    fields.slice(1)
+      .filter(host => !HOSTS_RESERVED.has(host.toLowerCase()))
+      .forEach(domain => parsed.rows.push({ line: index + 1, input: raw, domain, type: 'exact' }));
+  });
+}
+
+function parseCsv(content: string, parsed: ParsedImport): void {
+  const lines = content.split(/\r?\n/);
+  let columns = ['domain', 'type', 'reason', 'expiresAt'];
+  let first = true;
+
+  lines.forEach((raw, index) => {
+    if (!raw.trim() || raw.trim().startsWith('#')) return;
+    const cells = parseCsvLine(raw);
+
+    // A header row names the columns; otherwise the default column order applies
+    if (first) {
+      first = false;
+      const header = cells.map(cell => cell.toLowerCase());
+      if (header.includes('domain') || header.includes('pattern')) {
+        columns = cells.map(cell => (cell.toLowerCase() === 'pattern' ? 'domain' : cell));
+        return;
+      }
+    }
+
+    const row: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      row[column] = cells[i] || '';
+    });
+
+    const type = optionalType(row.type, index + 1, raw, parsed.errors);
+    if (type === null) return;
+
+    parsed.rows.push({
+      line: index + 1,
+      input: raw,
+      domain: row.domain,
+      type,
+      reason: row.reason || undefined,
+      expiresAt: row.expiresAt || undefined
+    });
+  });
+}
+
+function parseJsonEntries(entries: unknown[], parsed: ParsedImport): void {
+  entries.forEach((item, index) => {
+    const line = index + 1;
+    const input = JSON.stringify(item);
+
+    if (typeof item === 'string') {
+      parsed.rows.push({ line, input, domain: item });
+      return;
+    }
+
+    if (!item || typeof item !== 'object') {
+      parsed.errors.push({ line, input, error: 'Expected a pattern string or an entry object' });
+      return;
+    }
+
+    const entry = item as Record<string, any>;
+    const domain = entry.domain ?? entry.pattern;
+    if (typeof domain !== 'string') {
+      parsed.errors.push({ line, input, error: 'Entry is missing a domain' });
+      return;
+    }
+
+    const type = optionalType(entry.type, line, input, parsed.errors);
+    if (type === null) return;
+
+    parsed.rows.push({
+      line,
+      input,
+      domain,
+      type,
+      reason: typeof entry.reason === 'string' ? entry.reason : undefined,
+      expiresAt: typeof entry.expiresAt === 'string' ? entry.expiresAt : undefined
+    });
+  });
+}
+
+/**
+ * Parse import content into rows; lines that cannot be read are returned as errors.
+ * JSON imports may also be passed already parsed, as an array or `{ entries: [...] }`.
+ */
+export function parseBlacklistImport(content: string | unknown[], format?: BlacklistImportFormat): ParsedImport {
+  if (Array.isArray(content)) {
+    const parsed: ParsedImport = { format: 'json', rows: [], errors: [] };
+    parseJsonEntries(content, parsed);
+    return parsed;
+  }
+
+  const parsed: ParsedImport = { format: format || detectImportFormat(content), rows: [], errors: [] };
+
+  switch (parsed.format) {
+    case 'json': {
+      let data: any;
+      try {
+        data = JSON.parse(content);
+      } catch (error: any) {
+        parsed.errors.push({ line: 0, input: '', error: `Invalid JSON: ${error.message}` });
+        return parsed;
+      }
+      const entries = Array.isArray(data) ? data : data?.entries;
+      if (!Array.isArray(entries)) {
+        parsed.errors.push({ line: 0, input: '', error: 'JSON must be an array of entries or { "entries": [...] }' });
+        return parsed;
+      }
+      parseJsonEntries(entries, parsed);
+      break;
+    }
+    case 'csv':
+      parseCsv(content, parsed);
+      break;
+    case 'hosts':
+      parseHosts(content, parsed);
+      break;
+    case 'text':
+    default:
+      parseText(content, parsed);
+  }
+
+  return parsed;
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render blacklist entries for export. The hosts format can only express hostnames,
+ * so glob, regex and cidr rules are listed as comments instead.
+ */
+export function exportBlacklist(entries: (BlacklistEntry & { tenant: string })[], format: BlacklistExportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(entries, null, 2);
+    case 'hosts': {
+      const lines = entries.map(entry => (entry.type === 'exact' || entry.type === 'domain')
+        ? `0.0.0.0 ${entry.pattern}`
+        : `# ${entry.type} rule not expressible in hosts format: ${entry.pattern}`);
+      return ['# Exported from the scrapebase blacklist', ...lines].join('\n') + '\n';
+    }
+    case 'csv':
+    default: {
+      const rows = entries.map(entry => [
+        entry.pattern,
+        entry.type,
+        entry.reason,
+        entry.expiresAt,
+        entry.createdAt,
+        entry.addedBy?.userKey,
+        entry.tenant
+      ].map(csvCell).join(','));
+      return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { Request } from 'express';
+import { FeatureName } from './features';
+import { DEFAULT_SUBPAGES_COUNT } from '../routes/processWebsite';
+import { QUOTA_WINDOWS, QuotaLimits, QuotaResult, QuotaUsage, refundQuota, reserveQuota } from './quota';
+
+/**
+ * Credit cost of each operation. Every request costs `request` (a single page
+ * scrape is one request); crawls add `subpage` per requested subpage and
+ * granted features add their own weight.
+ */
+export const CREDIT_WEIGHTS = {
+  request: 1,
+  subpage: 1,
+  summarization: parseInt(process.env.CREDITS_SUMMARIZATION || '5', 10)
+};
+
+// Features without an entry cost nothing beyond the request itself
+const FEATURE_WEIGHTS: Partial<Record<FeatureName, number>> = {
+  summarization: CREDIT_WEIGHTS.summarization
+};
+
+// Routes whose request body asks for subpages; job submissions do when they are crawls
+const CRAWL_PATHS = ['/process/api/processWebsite'];
+const JOBS_PATH = '/api/jobs';
+
+// Routes that deliver each weighted feature; elsewhere the feature is authorized but not charged
+const FEATURE_PATHS: Partial<Record<FeatureName, string[]>> = {
+  summarization: ['/api/text/process']
+};
+
+/**
+ * Credits reserved for a request, recorded by the rate limiter
+ */
+export interface CreditReservation {
+  subject: string;
+  limits: QuotaLimits;
+  reserved: number;
+  refunded: number;
+  reservedAt: number;
+  // Usage as of the latest reservation, before any refunds
+  usage: QuotaUsage;
+}
+
+/**
+ * Weight of a single feature
+ */
+export function getFeatureCredits(feature: FeatureName): number {
+  return FEATURE_WEIGHTS[feature] || 0;
+}
+
+/**
+ * Credits the rate limiter reserves up front, from the parameters the request asks for.
+ * Feature credits are reserved once the features are authorized, so denied features are never charged.
+ */
+export function estimateCredits(req: Request): number {
+  let credits = CREDIT_WEIGHTS.request;
+
+  if (req.method !== 'POST') {
+    return credits;
+  }
+
+  if (CRAWL_PATHS.includes(req.path) || (req.path === JOBS_PATH && req.body?.type === 'crawl')) {
+    const subpagesCount = Number(req.body?.subpagesCount ?? DEFAULT_SUBPAGES_COUNT);
+    if (Number.isFinite(subpagesCount) && subpagesCount > 0) {
+      credits += Math.floor(subpagesCount) * CREDIT_WEIGHTS.subpage;
+    }
+  }
+
+  return credits;
+}
+
+/**
+ * Credits for a set of features
+ */
+export function getFeaturesCredits(features: FeatureName[]): number {
+  return features.reduce((total, feature) => total + getFeatureCredits(feature), 0);
+}
+
+/**
+ * Credits for the features a request's route actually delivers
+ */
+export function getDeliveredFeaturesCredits(req: Request, features: FeatureName[]): number {
+  const path = req.baseUrl + req.path;
+  return getFeaturesCredits(features.filter(feature => FEATURE_PATHS[feature]?.includes(path)));
+}
+
+/**
+ * Reserve more credits for a request the rate limiter already let through.
+ * Returns null when the request has no reservation (it was not rate limited).
+ */
+export async function reserveCredits(req: Request, credits: number): Promise<QuotaResult | null> {
+  const reservation = req.credits;
+  if (!reservation || credits <= 0) return null;
+
+  const result = await reserveQuota(reservation.subject, reservation.limits, credits);
+  if (result.allowed) {
+    reservation.reserved += credits;
+    reservation.usage = result.usage;
+  }
+  return result;
+}
+
+/**
+ * Return credits for work that was reserved but not done, such as failed subpages
+ */
+export function refundCredits(req: Pick<Request, 'credits'>, credits: number): void {
+  const reservation = req.credits;
+  if (!reservation || credits <= 0) return;
+
+  // Never refund more than is still held
+  const amount = Math.min(credits, reservation.reserved - reservation.refunded);
+  if (amount <= 0) return;
+
+  // The store logs its own failures; the response does not wait for the refund
+  void refundQuota(reservation.subject, amount, reservation.reservedAt);
+  reservation.refunded += amount;
+}
+
+// The tightest remaining budget across windows after refunds; null when every window is unlimited
+function lowestRemaining(usage: QuotaUsage, refunded: number): number | null {
+  const remaining = QUOTA_WINDOWS
+    .filter(window => usage[window].limit !== null)
+    .map(window => Math.min((usage[window].remaining as number) + refunded, usage[window].limit as number));
+  return remaining.length > 0 ? Math.min(...remaining) : null;
+}
+
+/**
+ * Credits charged for this request and what is left, for response bodies
+ */
+export function getCreditSummary(req: Pick<Request, 'credits'>): { creditsUsed: number, creditsRemaining: number | null } {
+  const reservation = req.credits;
+  if (!reservation) {
+    return { creditsUsed: 0, creditsRemaining: null };
+  }
+
+  return {
+    creditsUsed: reservation.reserved - reservation.refunded,
+    creditsRemaining: lowestRemaining(reservation.usage, reservation.refunded)
+  };
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      credits?: CreditReservation;
+    }
+  }
+}
@@ -0,0 +1,415 @@
+import fs from 'fs';
+import path from 'path';
+import { Permit } from 'permitio';
+import winston from 'winston';
+import dotenv from 'dotenv';
+import { PolicyEvaluation, PolicySet, evaluatePolicy, findThresholds, loadPolicyFile } from './hclPolicy';
+import { CachingDecisionEngine, authzCache } from './authzCache';
+
+// Ensure environment variables are loaded
+dotenv.config();
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'decision-engine' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+export interface PermitUser {
+  key: string;
+  email: string;
+  tenant: string;
+  attributes?: {
+    tier: string;
+    roles?: string[];
+    requests_per_hour?: number;
+  };
+}
+
+export interface AuthzResource {
+  type: string;
+  key: string;
+  attributes: Record<string, any>;
+}
+
+/**
+ * One action/resource pair in a batch of checks for the same user
+ */
+export interface AuthzCheck {
+  action: string;
+  resource: AuthzResource;
+}
+
+/**
+ * Outcome of a single permission check
+ */
+export interface AuthzDecision {
+  allowed: boolean;
+  engine: string;
+  reason?: string;
+  policy?: string;
+  // True when the primary engine failed and the decision came from the failure mode
+  degraded?: boolean;
+  // True when no engine could make a decision at all
+  unavailable?: boolean;
+}
+
+/**
+ * A policy decision point that permitAuth can ask for decisions
+ */
+export interface DecisionEngine {
+  readonly name: string;
+  syncUser(user: PermitUser): Promise<void>;
+  syncTenant(key: string, name: string): Promise<void>;
+  check(user: PermitUser, action: string, resource: AuthzResource, tenant: string): Promise<AuthzDecision>;
+  // Decisions are returned in the same order as the checks
+  bulkCheck(user: PermitUser, checks: AuthzCheck[], tenant: string): Promise<AuthzDecision[]>;
+  // Register a resource instance (e.g. a premium domain) so policies can reference it
+  syncResourceInstance(resource: AuthzResource, tenant: string): Promise<void>;
+  deleteResourceInstance(type: string, key: string): Promise<void>;
+}
+
+/**
+ * What to do for an action when the primary engine cannot be reached:
+ * - local: evaluate the HCL policy file in-process
+ * - open: allow the request
+ * - closed: deny the request
+ */
+export type FailureMode = 'local' | 'open' | 'closed';
+
+const POLICY_FILE = process.env.AUTHZ_POLICY_FILE || path.join(__dirname, '../../policies/scrape_policy.hcl');
+const DEFAULT_PDP_URL = 'https://cloudpdp.api.permit.io';
+
+/**
+ * Decisions from the Permit.io PDP (cloud or self-hosted)
+ */
+export class PermitDecisionEngine implements DecisionEngine {
+  public readonly name = 'permit';
+  private readonly permit: Permit;
+
+  constructor(token: string, pdp: string = DEFAULT_PDP_URL) {
+    this.permit = new Permit({ token, pdp });
+    logger.info(`Permit.io SDK initialized with PDP ${pdp}`);
+  }
+
+  async syncUser(user: PermitUser): Promise<void> {
+    // The tenant is passed per check, not stored on the Permit.io user
+    await this.permit.api.syncUser({ key: user.key, email: user.email, attributes: user.attributes });
+  }
+
+  async syncTenant(key: string, name: string): Promise<void> {
+    try {
+      await this.permit.api.tenants.create({ key, name });
+    } catch (error: any) {
+      // 409 means the tenant already exists
+      if (error?.response?.status !== 409) {
+        throw error;
+      }
+    }
+  }
+
+  async syncResourceInstance(resource: AuthzResource, tenant: string): Promise<void> {
+    try {
+      await this.permit.api.resourceInstances.create({
+        resource: resource.type,
+        key: resource.key,
+        tenant,
+        attributes: resource.attributes
+      });
+    } catch (error: any) {
+      // 409 means the instance exists; update its attributes instead
+      if (error?.response?.status !== 409) {
+        throw error;
+      }
+      await this.permit.api.resourceInstances.update(`${resource.type}:${resource.key}`, {
+        attributes: resource.attributes
+      });
+    }
+  }
+
+  async deleteResourceInstance(type: string, key: string): Promise<void> {
+    try {
+      await this.permit.api.resourceInstances.delete(`${type}:${key}`);
+    } catch (error: any) {
+      // 404 means it was never synced or is already gone
+      if (error?.response?.status !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  async check(user: PermitUser, action: string, resource: AuthzResource, tenant: string): Promise<AuthzDecision> {
+    // User attributes are sent with the check so per-request values like requests_per_hour are current
+    const allowed = await this.permit.check({ key: user.key, attributes: user.attributes }, action, {
+      type: resource.type,
+      key: resource.key,
+      tenant,
+      attributes: resource.attributes
+    });
+
+    return { allowed, engine: this.name };
+  }
+
+  async bulkCheck(user: PermitUser, checks: AuthzCheck[], tenant: string): Promise<AuthzDecision[]> {
+    if (checks.length === 0) return [];
+
+    const results = await this.permit.bulkCheck(checks.map(({ action, resource }) => ({
+      user: { key: user.key, attributes: user.attributes },
+      action,
+      resource: {
+        type: resource.type,
+        key: resource.key,
+        tenant,
+        attributes: resource.attributes
+      }
+    })));
+
+    return results.map(allowed => ({ allowed, engine: this.name }));
+  }
+}
+
+/**
+ * Offline decisions evaluated from the local HCL policy file.
+ * The file is re-read whenever it changes on disk.
+ */
+export class LocalDecisionEngine implements DecisionEngine {
+  public readonly name = 'local';
+  private policySet: PolicySet | null = null;
+  private loadedMtime = 0;
+
+  constructor(private readonly policyFile: string = POLICY_FILE) {}
+
+  async syncUser(): Promise<void> {
+    // Users are evaluated from the request itself, nothing to sync
+  }
+
+  async syncTenant(): Promise<void> {
+    // Tenants are passed with each check, nothing to sync
+  }
+
+  async syncResourceInstance(): Promise<void> {
+    // Resource attributes are passed with each check, nothing to sync
+  }
+
+  async deleteResourceInstance(): Promise<void> {
+    // Nothing is synced, so nothing to delete
+  }
+
+  /**
+   * Evaluate a check and return the full policy trace
+   */
+  evaluate(user: PermitUser, action: string, resource: AuthzResource): PolicyEvaluation {
+    return evaluatePolicy(this.getPolicySet(), {
+      user: {
+        key: user.key,
+        roles: user.attributes?.roles || [],
+        attributes: { ...user.attributes }
+      },
+      action,
+      resource
+    });
+  }
+
+  async check(user: PermitUser, action: string, resource: AuthzResource): Promise<AuthzDecision> {
+    const evaluation = this.evaluate(user, action, resource);
+    return {
+      allowed: evaluation.allowed,
+      engine: this.name,
+      reason: evaluation.reason,
+      policy: evaluation.policy
+    };
+  }
+
+  async bulkCheck(user: PermitUser, checks: AuthzCheck[]): Promise<AuthzDecision[]> {
+    return Promise.all(checks.map(({ action, resource }) => this.check(user, action, resource)));
+  }
+
+  /**
+   * Values the policies compare an attribute against, such as the `requests_per_hour` limits
+   */
+  getThresholds(attributePath: string): number[] {
+    return findThresholds(this.getPolicySet(), attributePath);
+  }
+
+  private getPolicySet(): PolicySet {
+    const mtime = fs.statSync(this.policyFile).mtimeMs;
+    if (!this.policySet || mtime !== this.loadedMtime) {
+      this.policySet = loadPolicyFile(this.policyFile);
+      this.loadedMtime = mtime;
+      logger.info(`Loaded ${this.policySet.policies.length} local policies from ${this.policyFile}`);
+    }
+    return this.policySet;
+  }
+}
+
+/**
+ * Uses the primary engine and applies the per-action failure mode when it errors
+ */
+export class FallbackDecisionEngine implements DecisionEngine {
+  public readonly name: string;
+
+  constructor(
+    private readonly primary: DecisionEngine,
+    private readonly local: LocalDecisionEngine,
+    private readonly failureModes: Record<string, FailureMode>,
+    private readonly defaultFailureMode: FailureMode = 'local'
+  ) {
+    this.name = `${primary.name}+${local.name}`;
+  }
+
+  getFailureMode(action: string): FailureMode {
+    return this.failureModes[action] || this.defaultFailureMode;
+  }
+
+  async syncUser(user: PermitUser): Promise<void> {
+    try {
+      await this.primary.syncUser(user);
+    } catch (error: any) {
+      // Failing to sync should not block the decision; the check itself decides
+      logger.warn(`User sync with ${this.primary.name} failed: ${error.message || error}`);
+    }
+  }
+
+  async syncTenant(key: string, name: string): Promise<void> {
+    await this.primary.syncTenant(key, name);
+  }
+
+  async syncResourceInstance(resource: AuthzResource, tenant: string): Promise<void> {
+    await this.primary.syncResourceInstance(resource, tenant);
+  }
+
+  async deleteResourceInstance(type: string, key: string): Promise<void> {
+    await this.primary.deleteResourceInstance(type, key);
+  }
+
+  async check(user: PermitUser, action: string, resource: AuthzResource, tenant: string): Promise<AuthzDecision> {
+    try {
+      return await this.primary.check(user, action, resource, tenant);
+    } catch (error: any) {
+      return this.applyFailureMode(user, action, resource, error);
+    }
+  }
+
+  async bulkCheck(user: PermitUser, checks: AuthzCheck[], tenant: string): Promise<AuthzDecision[]> {
+    try {
+      return await this.primary.bulkCheck(user, checks, tenant);
+    } catch (error: any) {
+      // Each action keeps its own failure mode, so a batch may come back partly degraded
+      return Promise.all(checks.map(({ action, resource }) => this.applyFailureMode(user, action, resource, error)));
+    }
+  }
+
+  private async applyFailureMode(user: PermitUser, action: string, resource: AuthzResource, error: any): Promise<AuthzDecision> {
+    const mode = this.getFailureMode(action);
+    logger.warn(`${this.primary.name} check failed for ${action}, applying failure mode '${mode}': ${error.message || error}`);
+
+    if (mode === 'open') {
+      return { allowed: true, engine: 'fail-open', reason: 'authorization service unreachable, failing open', degraded: true };
+    }
+
+    if (mode === 'local') {
+      try {
+        return { ...(await this.local.check(user, action, resource)), degraded: true };
+      } catch (localError: any) {
+        logger.error(`Local policy evaluation failed for ${action}: ${localError.message || localError}`);
+      }
+    }
+
+    return {
+      allowed: false,
+      engine: 'fail-closed',
+      reason: 'authorization service unreachable, failing closed',
+      degraded: true,
+      unavailable: true
+    };
+  }
+}
+
+/**
+ * Parse per-action failure modes, e.g. "scrape_basic:open,scrape_advanced:closed"
+ */
+export function parseFailureModes(value: string | undefined): Record<string, FailureMode> {
+  const modes: Record<string, FailureMode> = {};
+  if (!value) return modes;
+
+  for (const entry of value.split(',')) {
+    const [action, mode] = entry.split(':').map(part => part.trim());
+    if (action && isFailureMode(mode)) {
+      modes[action] = mode;
+    } else if (entry.trim()) {
+      logger.warn(`Ignoring invalid AUTHZ_FAILURE_MODES entry: ${entry}`);
+    }
+  }
+  return modes;
+}
+
+function isFailureMode(value: string | undefined): value is FailureMode {
+  return value === 'local' || value === 'open' || value === 'closed';
+}
+
+/**
+ * Build the decision engine from environment configuration.
+ *
+ * AUTHZ_ENGINE=permit uses Permit.io with failure modes (the default when
+ * PERMIT_API_KEY is set); AUTHZ_ENGINE=local uses only the HCL policy file.
+ * Permit.io decisions and user syncs are cached; fallback decisions are not.
+ */
+export function createDecisionEngine(): DecisionEngine {
+  const engine = process.env.AUTHZ_ENGINE || (process.env.PERMIT_API_KEY ? 'permit' : 'local');
+  const local = getLocalDecisionEngine();
+
+  if (engine === 'local') {
+    logger.info('Using local policy decision engine');
+    return local;
+  }
+
+  if (!process.env.PERMIT_API_KEY) {
+    throw new Error('PERMIT_API_KEY environment variable is required');
+  }
+
+  const defaultMode = process.env.AUTHZ_FAILURE_MODE;
+  return new FallbackDecisionEngine(
+    new CachingDecisionEngine(
+      new PermitDecisionEngine(process.env.PERMIT_API_KEY, process.env.PERMIT_PDP_URL || DEFAULT_PDP_URL),
+      authzCache,
+      () => local.getThresholds('user.requests_per_hour')
+    ),
+    local,
+    parseFailureModes(process.env.AUTHZ_FAILURE_MODES),
+    isFailureMode(defaultMode) ? defaultMode : 'local'
+  );
+}
+
+let decisionEngine: DecisionEngine | null = null;
+let localDecisionEngine: LocalDecisionEngine | null = null;
+
+/**
+ * Get the shared local engine, used for fallback decisions and policy traces
+ */
+export function getLocalDecisionEngine(): LocalDecisionEngine {
+  if (!localDecisionEngine) {
+    localDecisionEngine = new LocalDecisionEngine();
+  }
+  return localDecisionEngine;
+}
+
+/**
+ * Get the shared decision engine, creating it on first use
+ */
+export function getDecisionEngine(): DecisionEngine {
+  if (!decisionEngine) {
+    decisionEngine = createDecisionEngine();
+  }
+  return decisionEngine;
+}
@@ -0,0 +1,49 @@
+/**
+ * Domain patterns shared by the premium domain registry and tenant settings.
+ *
+ * - `example.com` matches the domain and all of its subdomains
+ * - `*.example.com` matches subdomains only
+ * - `*` anywhere else matches any run of characters, e.g. `shop-*.example.com`
+ */
+
+const DOMAIN_PATTERN = /^(\*\.)?[a-z0-9*]([a-z0-9*-]*[a-z0-9*])?(\.[a-z0-9*]([a-z0-9*-]*[a-z0-9*])?)*$/;
+
+/**
+ * Check whether a pattern is a well-formed (lowercase) domain, optionally with wildcards
+ */
+export function isValidDomainPattern(pattern: string): boolean {
+  return pattern.length <= 253 && DOMAIN_PATTERN.test(pattern);
+}
+
+export function isWildcardPattern(pattern: string): boolean {
+  return pattern.includes('*');
+}
+
+/**
+ * Check a hostname against a single domain pattern
+ */
+export function matchesDomainPattern(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase();
+
+  if (!isWildcardPattern(pattern)) {
+    return host === pattern || host.endsWith(`.${pattern}`);
+  }
+
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(host);
+}
+
+/**
+ * Find the first pattern that matches a hostname
+ */
+export function findMatchingPattern(hostname: string, patterns: Iterable<string>): string | null {
+  for (const pattern of patterns) {
+    if (matchesDomainPattern(hostname, pattern)) {
+      return pattern;
+    }
+  }
+  return null;
+}
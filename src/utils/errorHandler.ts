@@ -1,5 +1,6 @@
 import { Response } from 'express';
 import winston from 'winston';
+import { QueueRejectedError } from './requestQueue';
 
 const logger = winston.createLogger({
   level: 'debug',
@@ -52,7 +53,8 @@ export enum ErrorCode {
   QUEUE_TIMEOUT = 'QUEUE_TIMEOUT',
   UNAUTHORIZED = 'UNAUTHORIZED',
   BROWSER_ERROR = 'BROWSER_ERROR',
-  VALIDATION_ERROR = 'VALIDATION_ERROR'
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  CANCELLED = 'CANCELLED'
 }
 
 /**
@@ -68,9 +70,20 @@ const statusCodeMap: Record<ErrorCode, number> = {
   [ErrorCode.QUEUE_TIMEOUT]: 429,
   [ErrorCode.UNAUTHORIZED]: 401,
   [ErrorCode.BROWSER_ERROR]: 500,
-  [ErrorCode.VALIDATION_ERROR]: 400
+  [ErrorCode.VALIDATION_ERROR]: 400,
+  [ErrorCode.CANCELLED]: 409
 };
 
+/**
+ * An error that already knows which response it should produce
+ */
+export class ApiError extends Error {
+  constructor(public readonly code: ErrorCode, message: string, public readonly details?: any) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
 /**
  * Filter content to prevent logging HTML/CSS content
  */
@@ -103,7 +116,24 @@ function filterLoggableContent(content: any): any {
 }
 
 /**
- * Send a standardized error response
+ * Build the standard error body, as sent to clients and to webhook receivers
+ */
+export function buildErrorResponse(code: ErrorCode, message: string, requestId: string, details?: any): ErrorResponse {
+  return {
+    success: false,
+    error: {
+      code,
+      message,
+      ...(details ? { details } : {})
+    },
+    requestId,
+    timestamp: Date.now()
+  };
+}
+
+/**
+ * Send a standardized error response. When `details.retryAfter` is set (in seconds)
+ * it is also sent as the Retry-After header.
  */
 export function sendErrorResponse(
   res: Response,
@@ -124,16 +154,11 @@ export function sendErrorResponse(
     }
   }
   
-  const errorResponse: ErrorResponse = {
-    success: false,
-    error: {
-      code,
-      message,
-      ...(filteredDetails ? { details: filteredDetails } : {})
-    },
-    requestId,
-    timestamp: Date.now()
-  };
+  const errorResponse = buildErrorResponse(code, message, requestId, filteredDetails);
+  
+  if (typeof filteredDetails?.retryAfter === 'number') {
+    res.setHeader('Retry-After', String(filteredDetails.retryAfter));
+  }
   
   // Log the error
   const filteredMessage = filterLoggableContent(message);
@@ -150,6 +175,19 @@ export function sendErrorResponse(
  * Parse error and determine the appropriate error code
  */
 export function parseError(error: unknown): { code: ErrorCode, message: string, details?: any } {
+  if (error instanceof ApiError) {
+    return { code: error.code, message: error.message, details: error.details };
+  }
+  
+  // Checked before the timeout detection below, since queue timeouts are a capacity problem
+  if (error instanceof QueueRejectedError) {
+    return {
+      code: ErrorCode.QUEUE_TIMEOUT,
+      message: error.message,
+      details: { retryAfter: error.retryAfter }
+    };
+  }
+  
   if (error instanceof Error) {
     const errorMessage = error.message.toLowerCase();
     
@@ -0,0 +1,62 @@
+/**
+ * Catalogue of optional extraction features and the permission action that gates each one
+ */
+export type FeatureName =
+  | 'raw_html'
+  | 'subpage_crawl'
+  | 'summarization';
+
+export interface FeatureDefinition {
+  name: FeatureName;
+  action: string;
+  description: string;
+}
+
+export const FEATURES: Record<FeatureName, FeatureDefinition> = {
+  raw_html: {
+    name: 'raw_html',
+    action: 'use_raw_html',
+    description: 'Include the full page HTML in the response'
+  },
+  subpage_crawl: {
+    name: 'subpage_crawl',
+    action: 'use_subpage_crawl',
+    description: 'Follow and scrape subpages of the requested site'
+  },
+  summarization: {
+    name: 'summarization',
+    action: 'use_summarization',
+    description: 'Summarize extracted text with the language model'
+  }
+};
+
+export function isFeatureName(value: unknown): value is FeatureName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(FEATURES, value);
+}
+
+/**
+ * Features requested by a request body.
+ *
+ * Features are listed in `features`; the older `summarize` flag still
+ * requests summarization. Unknown names are returned separately so callers
+ * can reject them.
+ */
+export function getRequestedFeatures(body: any): { features: FeatureName[], unknown: string[] } {
+  const requested = new Set<FeatureName>();
+  const unknown: string[] = [];
+
+  const listed = Array.isArray(body?.features) ? body.features : [];
+  for (const name of listed) {
+    if (isFeatureName(name)) {
+      requested.add(name);
+    } else {
+      unknown.push(String(name));
+    }
+  }
+
+  if (body?.summarize) {
+    requested.add('summarization');
+  }
+
+  return { features: Array.from(requested), unknown };
+}
@@ -0,0 +1,555 @@
+import fs from 'fs';
+
+/**
+ * Minimal reader and evaluator for the HCL subset used in policies/scrape_policy.hcl.
+ *
+ * Supports `resource`, `role` and `policy` blocks, string/number/bool/list/object
+ * values, nested `condition "name" { match = "..." }` blocks and `//`, `#` and
+ * `/* *\/` comments. Condition expressions support `!`, `&&`, `||`, parentheses
+ * and the comparison operators `== != < <= > >=` over `user.*` and `resource.*`.
+ */
+
+type HclValue = string | number | boolean | null | HclValue[] | HclObject | HclBlock;
+
+interface HclObject {
+  [key: string]: HclValue;
+}
+
+interface HclBlock {
+  kind: 'block';
+  type: string;
+  labels: string[];
+  body: HclBody;
+}
+
+interface HclBody {
+  attributes: HclObject;
+  blocks: HclBlock[];
+}
+
+export interface PolicyCondition {
+  name: string;
+  match: string;
+}
+
+export interface PolicyRule {
+  name: string;
+  resource: string;
+  roles: string[];
+  actions: string[];
+  effect: 'allow' | 'deny';
+  conditions: PolicyCondition[];
+}
+
+export interface PolicySet {
+  resources: Record<string, { roles: string[], attributes: Record<string, string> }>;
+  roles: Record<string, { name?: string, description?: string }>;
+  policies: PolicyRule[];
+}
+
+/**
+ * Input to a local policy evaluation
+ */
+export interface PolicyInput {
+  user: { key: string, roles: string[], attributes: Record<string, any> };
+  action: string;
+  resource: { type: string, key?: string, attributes: Record<string, any> };
+}
+
+export interface ConditionTrace {
+  name: string;
+  match: string;
+  result: boolean;
+}
+
+export interface PolicyTrace {
+  policy: string;
+  effect: 'allow' | 'deny';
+  applicable: boolean;
+  matched: boolean;
+  conditions: ConditionTrace[];
+}
+
+export interface PolicyEvaluation {
+  allowed: boolean;
+  policy?: string;
+  reason: string;
+  trace: PolicyTrace[];
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: 'ident', value: string }
+  | { type: 'string', value: string }
+  | { type: 'number', value: number }
+  | { type: 'punct', value: string };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '#' || (ch === '/' && source[i + 1] === '/')) {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (ch === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      i = end === -1 ? source.length : end + 2;
+    } else if (ch === '"') {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          i++;
+        }
+        value += source[i++];
+      }
+      if (i >= source.length) {
+        throw new Error('Unterminated string in policy file');
+      }
+      i++;
+      tokens.push({ type: 'string', value });
+    } else if (/[0-9]/.test(ch) || (ch === '-' && /[0-9]/.test(source[i + 1] || ''))) {
+      let raw = ch;
+      i++;
+      while (i < source.length && /[0-9.]/.test(source[i])) raw += source[i++];
+      tokens.push({ type: 'number', value: parseFloat(raw) });
+    } else if (/[A-Za-z_]/.test(ch)) {
+      let value = '';
+      while (i < source.length && /[A-Za-z0-9_\-]/.test(source[i])) value += source[i++];
+      tokens.push({ type: 'ident', value });
+    } else if ('{}[]=,'.includes(ch)) {
+      tokens.push({ type: 'punct', value: ch });
+      i++;
+    } else {
+      throw new Error(`Unexpected character '${ch}' in policy file`);
+    }
+  }
+
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+class HclParser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseDocument(): HclBody {
+    const body = this.parseBody(null);
+    if (this.pos < this.tokens.length) {
+      throw new Error('Unexpected content at end of policy file');
+    }
+    return body;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.type === 'punct' && token.value === value;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.isPunct(value)) {
+      throw new Error(`Expected '${value}' in policy file`);
+    }
+    this.pos++;
+  }
+
+  private parseBody(closing: string | null): HclBody {
+    const body: HclBody = { attributes: {}, blocks: [] };
+
+    while (this.pos < this.tokens.length && !(closing && this.isPunct(closing))) {
+      const token = this.peek();
+      if (!token || (token.type !== 'ident' && token.type !== 'string')) {
+        throw new Error('Expected attribute or block name in policy file');
+      }
+
+      if (this.isPunct('=', 1)) {
+        this.pos += 2;
+        body.attributes[String(token.value)] = this.parseValue();
+      } else {
+        body.blocks.push(this.parseBlock());
+      }
+
+      // Commas between entries are optional
+      if (this.isPunct(',')) this.pos++;
+    }
+
+    return body;
+  }
+
+  private parseBlock(): HclBlock {
+    const typeToken = this.tokens[this.pos++];
+    const labels: string[] = [];
+
+    while (this.peek()?.type === 'string') {
+      labels.push(String(this.tokens[this.pos++].value));
+    }
+
+    this.expectPunct('{');
+    const body = this.parseBody('}');
+    this.expectPunct('}');
+
+    return { kind: 'block', type: String(typeToken.value), labels, body };
+  }
+
+  private parseValue(): HclValue {
+    const token = this.peek();
+    if (!token) {
+      throw new Error('Unexpected end of policy file');
+    }
+
+    if (token.type === 'string' || token.type === 'number') {
+      this.pos++;
+      return token.value;
+    }
+
+    if (token.type === 'ident') {
+      if (token.value === 'true' || token.value === 'false') {
+        this.pos++;
+        return token.value === 'true';
+      }
+      if (token.value === 'null') {
+        this.pos++;
+        return null;
+      }
+      // Bare blocks are allowed as list items, e.g. `condition "x" { ... }`
+      return this.parseBlock();
+    }
+
+    if (token.value === '[') {
+      this.pos++;
+      const items: HclValue[] = [];
+      while (!this.isPunct(']')) {
+        items.push(this.parseValue());
+        if (this.isPunct(',')) this.pos++;
+      }
+      this.pos++;
+      return items;
+    }
+
+    if (token.value === '{') {
+      this.pos++;
+      const object: HclObject = {};
+      while (!this.isPunct('}')) {
+        const key = this.tokens[this.pos++];
+        this.expectPunct('=');
+        object[String(key.value)] = this.parseValue();
+        if (this.isPunct(',')) this.pos++;
+      }
+      this.pos++;
+      return object;
+    }
+
+    throw new Error(`Unexpected '${token.value}' in policy file`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Policy compilation
+// ---------------------------------------------------------------------------
+
+function asStringList(value: HclValue | undefined): string[] {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value.map(item => String(item));
+  return [String(value)];
+}
+
+function compile(document: HclBody): PolicySet {
+  const policySet: PolicySet = { resources: {}, roles: {}, policies: [] };
+
+  for (const block of document.blocks) {
+    const name = block.labels[0];
+    const attrs = block.body.attributes;
+
+    switch (block.type) {
+      case 'resource':
+        policySet.resources[name] = {
+          roles: asStringList(attrs.roles),
+          attributes: Object.fromEntries(
+            Object.entries((attrs.attributes as HclObject) || {}).map(([key, type]) => [key, String(type)])
+          )
+        };
+        break;
+      case 'role':
+        policySet.roles[name] = {
+          name: attrs.name as string | undefined,
+          description: attrs.description as string | undefined
+        };
+        break;
+      case 'policy': {
+        const conditionBlocks = [
+          ...(Array.isArray(attrs.conditions) ? attrs.conditions : []),
+          ...block.body.blocks
+        ].filter((item): item is HclBlock => !!item && typeof item === 'object' && (item as HclBlock).kind === 'block');
+
+        policySet.policies.push({
+          name,
+          resource: String(attrs.resource),
+          roles: [...asStringList(attrs.role), ...asStringList(attrs.roles)],
+          actions: asStringList(attrs.actions),
+          effect: attrs.effect === 'deny' ? 'deny' : 'allow',
+          conditions: conditionBlocks
+            .filter(condition => condition.type === 'condition')
+            .map(condition => ({
+              name: condition.labels[0],
+              match: String(condition.body.attributes.match)
+            }))
+        });
+        break;
+      }
+      default:
+        // Unknown top-level blocks are ignored so the file can carry extra metadata
+        break;
+    }
+  }
+
+  return policySet;
+}
+
+/**
+ * Parse HCL policy source into a policy set
+ */
+export function parsePolicy(source: string): PolicySet {
+  return compile(new HclParser(tokenize(source)).parseDocument());
+}
+
+/**
+ * Read and parse a policy file from disk
+ */
+export function loadPolicyFile(filePath: string): PolicySet {
+  return parsePolicy(fs.readFileSync(filePath, 'utf8'));
+}
+
+// ---------------------------------------------------------------------------
+// Condition expressions
+// ---------------------------------------------------------------------------
+
+// Marker for values that depend on attributes that were not supplied
+const UNKNOWN = Symbol('unknown');
+
+type ExprToken = { type: 'op' | 'path' | 'literal', value: any };
+
+function tokenizeExpression(expression: string): ExprToken[] {
+  const tokens: ExprToken[] = [];
+  const pattern = /\s*(\|\||&&|==|!=|<=|>=|<|>|!|\(|\)|'[^']*'|"[^"]*"|-?\d+(?:\.\d+)?|[A-Za-z_][A-Za-z0-9_.]*)/y;
+  let match: RegExpExecArray | null;
+
+  while (pattern.lastIndex < expression.length) {
+    match = pattern.exec(expression);
+    if (!match) {
+      if (expression.slice(pattern.lastIndex).trim() === '') break;
+      throw new Error(`Invalid condition expression: ${expression}`);
+    }
+    const raw = match[1];
+
+    if (/^['"]/.test(raw)) {
+      tokens.push({ type: 'literal', value: raw.slice(1, -1) });
+    } else if (/^-?\d/.test(raw)) {
+      tokens.push({ type: 'literal', value: parseFloat(raw) });
+    } else if (raw === 'true' || raw === 'false') {
+      tokens.push({ type: 'literal', value: raw === 'true' });
+    } else if (raw === 'null') {
+      tokens.push({ type: 'literal', value: null });
+    } else if (/^[A-Za-z_]/.test(raw)) {
+      tokens.push({ type: 'path', value: raw });
+    } else {
+      tokens.push({ type: 'op', value: raw });
+    }
+  }
+
+  return tokens;
+}
+
+const COMPARISON_OPS = ['==', '!=', '<=', '>=', '<', '>'];
+
+/**
+ * Numbers that conditions compare an attribute against, e.g. 50 and 500 for
+ * `user.requests_per_hour <= 50` and `user.requests_per_hour <= 500`
+ */
+export function findThresholds(policySet: PolicySet, attributePath: string): number[] {
+  const thresholds = new Set<number>();
+
+  policySet.policies.forEach(policy => policy.conditions.forEach(condition => {
+    const tokens = tokenizeExpression(condition.match);
+    tokens.forEach((token, i) => {
+      if (token.type !== 'op' || !COMPARISON_OPS.includes(token.value)) return;
+      const [left, right] = [tokens[i - 1], tokens[i + 1]];
+      if (left?.type === 'path' && left.value === attributePath && right?.type === 'literal' && typeof right.value === 'number') {
+        thresholds.add(right.value);
+      } else if (right?.type === 'path' && right.value === attributePath && left?.type === 'literal' && typeof left.value === 'number') {
+        thresholds.add(left.value);
+      }
+    });
+  }));
+
+  return Array.from(thresholds).sort((a, b) => a - b);
+}
+
+/**
+ * Evaluate a condition expression. An attribute the caller did not supply is
+ * unknown, and so is any comparison or `!` over it; `&&` and `||` are only
+ * decided by an unknown operand when the other operand does not settle them
+ * (`false && x` is false, `true || x` is true). A condition that ends up
+ * unknown evaluates to `whenUnknown`, so callers can make it fail closed.
+ */
+export function evaluateCondition(
+  expression: string,
+  scope: { user: Record<string, any>, resource: Record<string, any> },
+  whenUnknown = false
+): boolean {
+  const tokens = tokenizeExpression(expression);
+  let pos = 0;
+
+  const resolvePath = (path: string): any => {
+    const [root, ...rest] = path.split('.');
+    let value: any = (scope as Record<string, any>)[root];
+    for (const part of rest) {
+      value = value === undefined || value === null ? undefined : value[part];
+    }
+    return value === undefined ? UNKNOWN : value;
+  };
+
+  const peekOp = (value: string) => tokens[pos]?.type === 'op' && tokens[pos].value === value;
+
+  const parseOr = (): any => {
+    let left = parseAnd();
+    while (peekOp('||')) {
+      pos++;
+      const right = parseAnd();
+      left = left === true || right === true ? true
+        : left === UNKNOWN || right === UNKNOWN ? UNKNOWN
+        : !!left || !!right;
+    }
+    return left;
+  };
+
+  const parseAnd = (): any => {
+    let left = parseComparison();
+    while (peekOp('&&')) {
+      pos++;
+      const right = parseComparison();
+      left = isFalse(left) || isFalse(right) ? false
+        : left === UNKNOWN || right === UNKNOWN ? UNKNOWN
+        : !!left && !!right;
+    }
+    return left;
+  };
+
+  const parseComparison = (): any => {
+    const left = parseUnary();
+    const token = tokens[pos];
+    if (token?.type === 'op' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      pos++;
+      const right = parseUnary();
+      if (left === UNKNOWN || right === UNKNOWN) {
+        return UNKNOWN;
+      }
+      switch (token.value) {
+        case '==': return left === right;
+        case '!=': return left !== right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+      }
+    }
+    return left;
+  };
+
+  const parseUnary = (): any => {
+    if (peekOp('!')) {
+      pos++;
+      const value = parseUnary();
+      return value === UNKNOWN ? UNKNOWN : !value;
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): any => {
+    const token = tokens[pos++];
+    if (!token) {
+      throw new Error(`Unexpected end of condition expression: ${expression}`);
+    }
+    if (token.type === 'op' && token.value === '(') {
+      const value = parseOr();
+      if (!peekOp(')')) {
+        throw new Error(`Missing ')' in condition expression: ${expression}`);
+      }
+      pos++;
+      return value;
+    }
+    if (token.type === 'literal') return token.value;
+    if (token.type === 'path') return resolvePath(token.value);
+    throw new Error(`Unexpected '${token.value}' in condition expression: ${expression}`);
+  };
+
+  const isFalse = (value: any): boolean => value !== UNKNOWN && !value;
+
+  const result = parseOr();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected trailing input in condition expression: ${expression}`);
+  }
+  return result === UNKNOWN ? whenUnknown : !!result;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Evaluate a permission check against a policy set.
+ * A request is allowed when at least one allow policy matches and no deny policy does.
+ */
+export function evaluatePolicy(policySet: PolicySet, input: PolicyInput): PolicyEvaluation {
+  const scope = {
+    user: { key: input.user.key, roles: input.user.roles, ...input.user.attributes },
+    resource: { type: input.resource.type, key: input.resource.key, ...input.resource.attributes }
+  };
+  const trace: PolicyTrace[] = [];
+  let allowPolicy: string | undefined;
+  let denyPolicy: string | undefined;
+
+  for (const policy of policySet.policies) {
+    const applicable =
+      policy.resource === input.resource.type &&
+      policy.actions.includes(input.action) &&
+      policy.roles.some(role => role === '*' || input.user.roles.includes(role));
+
+    const conditions: ConditionTrace[] = applicable
+      ? policy.conditions.map(condition => ({
+          name: condition.name,
+          match: condition.match,
+          // Conditions over missing attributes fail closed: an allow does not match, a deny does
+          result: evaluateCondition(condition.match, scope, policy.effect === 'deny')
+        }))
+      : [];
+    const matched = applicable && conditions.every(condition => condition.result);
+
+    trace.push({ policy: policy.name, effect: policy.effect, applicable, matched, conditions });
+
+    if (matched && policy.effect === 'deny' && !denyPolicy) denyPolicy = policy.name;
+    if (matched && policy.effect === 'allow' && !allowPolicy) allowPolicy = policy.name;
+  }
+
+  if (denyPolicy) {
+    return { allowed: false, policy: denyPolicy, reason: `denied by policy ${denyPolicy}`, trace };
+  }
+  if (allowPolicy) {
+    return { allowed: true, policy: allowPolicy, reason: `allowed by policy ${allowPolicy}`, trace };
+  }
+  return { allowed: false, reason: 'no matching allow policy', trace };
+}
@@ -0,0 +1,368 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import winston from 'winston';
+import { isValidDomainPattern, matchesDomainPattern } from './domainPattern';
+import { writeFileAtomic } from './atomicWrite';
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'host-politeness' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+/**
+ * How hard we may hit a single target host: at most `maxConcurrent` pages at once,
+ * started at least `minDelay` milliseconds apart. When `honorCrawlDelay` is set, a
+ * longer `Crawl-delay` from the host's robots.txt wins.
+ */
+export interface HostPolicy {
+  maxConcurrent: number;
+  minDelay: number;
+  honorCrawlDelay: boolean;
+}
+
+export type HostPolicyOverride = Partial<HostPolicy>;
+
+export const DEFAULT_HOST_POLICY: HostPolicy = {
+  maxConcurrent: parseInt(process.env.HOST_MAX_CONCURRENT || '2', 10),
+  minDelay: parseInt(process.env.HOST_MIN_DELAY || '1000', 10),
+  honorCrawlDelay: process.env.HONOR_CRAWL_DELAY !== 'false'
+};
+
+// A robots.txt asking for more than this is capped, so one host cannot stall requests past their timeouts
+const MAX_CRAWL_DELAY = parseInt(process.env.HOST_MAX_CRAWL_DELAY || '30000', 10);
+const ROBOTS_CACHE_TTL = parseInt(process.env.ROBOTS_CACHE_TTL || '3600000', 10);
+const ROBOTS_TIMEOUT = 5000;
+
+// Overrides are keyed by domain pattern, so `example.com` also covers its subdomains
+const OVERRIDES_FILE = path.join(__dirname, '../../data/host_politeness.json');
+
+if (!fs.existsSync(path.dirname(OVERRIDES_FILE))) {
+  fs.mkdirSync(path.dirname(OVERRIDES_FILE), { recursive: true });
+}
+
+let overrides: Record<string, HostPolicyOverride> = {};
+try {
+  overrides = JSON.parse(fs.readFileSync(OVERRIDES_FILE, 'utf8'));
+} catch (error) {
+  // No overrides yet; the file is written on the first change
+}
+
+const saveOverrides = () => {
+  writeFileAtomic(OVERRIDES_FILE, JSON.stringify(overrides, null, 2));
+};
+
+// Pages running against a host and the callers waiting for a slot
+interface HostState {
+  active: number;
+  waiting: Array<() => void>;
+  // Earliest time the next page may start
+  nextStart: number;
+}
+
+const hosts = new Map<string, HostState>();
+
+const isIdle = (state: HostState) => state.active === 0 && state.waiting.length === 0 && state.nextStart <= Date.now();
+
+// Hosts left idle before their delay ran out are dropped later
+setInterval(() => {
+  hosts.forEach((state, host) => {
+    if (isIdle(state)) hosts.delete(host);
+  });
+}, 60000).unref();
+
+interface CachedCrawlDelay {
+  delay: Promise<number | null>;
+  fetchedAt: number;
+}
+
+const crawlDelays = new Map<string, CachedCrawlDelay>();
+
+// Rejects with the signal's reason as soon as it is aborted
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * The most specific override pattern matching a host
+ */
+function findOverridePattern(host: string): string | null {
+  const matches = Object.keys(overrides).filter(pattern => matchesDomainPattern(host, pattern));
+  return matches.sort((a, b) => b.length - a.length)[0] || null;
+}
+
+/**
+ * The policy applied to a host: its override on top of the defaults
+ */
+export function getHostPolicy(host: string): HostPolicy & { pattern: string | null } {
+  const pattern = findOverridePattern(host.toLowerCase());
+  return { ...DEFAULT_HOST_POLICY, ...(pattern ? overrides[pattern] : {}), pattern };
+}
+
+/**
+ * Parse the `Crawl-delay` (in seconds) of the group for all user agents
+ */
+export function parseCrawlDelay(robotsTxt: string): number | null {
+  let inWildcardGroup = false;
+  let previousWasAgent = false;
+
+  for (const rawLine of robotsTxt.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      inWildcardGroup = (previousWasAgent && inWildcardGroup) || value === '*';
+      previousWasAgent = true;
+      continue;
+    }
+    previousWasAgent = false;
+
+    if (field === 'crawl-delay' && inWildcardGroup) {
+      const seconds = parseFloat(value);
+      return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Crawl delay requested by a host's robots.txt in milliseconds, capped; null when none is set
+ */
+export function getCrawlDelay(origin: string): Promise<number | null> {
+  const cached = crawlDelays.get(origin);
+  if (cached && Date.now() - cached.fetchedAt < ROBOTS_CACHE_TTL) {
+    return cached.delay;
+  }
+
+  const delay = axios.get(`${origin}/robots.txt`, {
+    timeout: ROBOTS_TIMEOUT,
+    responseType: 'text',
+    maxContentLength: 512 * 1024,
+    validateStatus: status => status === 200
+  })
+    .then(response => {
+      const seconds = parseCrawlDelay(String(response.data));
+      return seconds === null ? null : Math.min(Math.round(seconds * 1000), MAX_CRAWL_DELAY);
+    })
+    .catch(() => {
+      // A missing or unreachable robots.txt asks for nothing
+      return null;
+    });
+
+  crawlDelays.set(origin, { delay, fetchedAt: Date.now() });
+  return delay;
+}
+
+/**
+ * Minimum time between page starts on the host of `url`, in milliseconds
+ */
+export async function getHostDelay(url: string): Promise<number> {
+  const { hostname, origin } = new URL(url);
+  const policy = getHostPolicy(hostname);
+  if (!policy.honorCrawlDelay) {
+    return policy.minDelay;
+  }
+  return Math.max(policy.minDelay, (await getCrawlDelay(origin)) ?? 0);
+}
+
+// Hand free slots to waiting callers in arrival order
+function drain(host: string, state: HostState): void {
+  const { maxConcurrent } = getHostPolicy(host);
+  while (state.active < maxConcurrent && state.waiting.length > 0) {
+    state.active++;
+    (state.waiting.shift() as () => void)();
+  }
+  if (isIdle(state)) {
+    hosts.delete(host);
+  }
+}
+
+// Wait until drain hands over a slot; an aborted caller leaves the line without taking one
+function waitForSlot(state: HostState, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      const index = state.waiting.indexOf(wake);
+      if (index !== -1) state.waiting.splice(index, 1);
+      reject(signal?.reason);
+    };
+    const wake = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    state.waiting.push(wake);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs a wait on the caller's behalf, e.g. giving up its request queue slot meanwhile
+ */
+export type WaitHook = <R>(wait: () => Promise<R>) => Promise<R>;
+
+/**
+ * Run a task against the host of `url` within the host's concurrency cap and delay.
+ * Every outbound page load goes through here, whichever request started it.
+ * Aborting `signal` while waiting gives up the place in line and any claimed start time;
+ * `suspend` wraps the wait when there is one.
+ */
+export async function withHostSlot<T>(
+  url: string,
+  requestId: string,
+  task: () => Promise<T>,
+  signal?: AbortSignal,
+  suspend: WaitHook = wait => wait()
+): Promise<T> {
+  const host = new URL(url).hostname;
+  const delay = await getHostDelay(url);
+  signal?.throwIfAborted();
+
+  let state = hosts.get(host);
+  if (!state) {
+    state = { active: 0, waiting: [], nextStart: 0 };
+    hosts.set(host, state);
+  }
+  const hostState = state;
+
+  const acquire = async () => {
+    if (hostState.active < getHostPolicy(host).maxConcurrent && hostState.waiting.length === 0) {
+      hostState.active++;
+    } else {
+      await waitForSlot(hostState, signal);
+    }
+
+    // Claim the next start time before waiting so concurrent callers are spaced out
+    const previousStart = hostState.nextStart;
+    const startAt = Math.max(Date.now(), hostState.nextStart);
+    hostState.nextStart = startAt + delay;
+    if (startAt > Date.now()) {
+      try {
+        await sleep(startAt - Date.now(), signal);
+      } catch (error) {
+        // Hand the start time back unless a later caller has already claimed the one after it
+        if (hostState.nextStart === startAt + delay) {
+          hostState.nextStart = previousStart;
+        }
+        hostState.active--;
+        drain(host, hostState);
+        throw error;
+      }
+    }
+  };
+
+  const queuedAt = Date.now();
+  const free = state.active < getHostPolicy(host).maxConcurrent && state.waiting.length === 0;
+  if (free && state.nextStart <= queuedAt) {
+    await acquire();
+  } else {
+    await suspend(acquire);
+  }
+
+  const waited = Date.now() - queuedAt;
+  if (waited > 0) {
+    logger.debug(`[${requestId}] Waited ${waited}ms for a slot on ${host}`);
+  }
+
+  try {
+    return await task();
+  } finally {
+    state.active--;
+    drain(host, state);
+  }
+}
+
+/**
+ * Current load on a host, for the admin API
+ */
+export async function getHostStatus(host: string) {
+  const state = hosts.get(host);
+  const policy = getHostPolicy(host);
+  return {
+    host,
+    policy,
+    crawlDelay: policy.honorCrawlDelay ? await getCrawlDelay(`https://${host}`) : null,
+    active: state?.active || 0,
+    waiting: state?.waiting.length || 0
+  };
+}
+
+export function listHostOverrides(): Record<string, HostPolicyOverride> {
+  return { ...overrides };
+}
+
+export function setHostOverride(pattern: string, override: HostPolicyOverride): void {
+  overrides[pattern] = override;
+  saveOverrides();
+  logger.info(`Set politeness override for ${pattern}: ${JSON.stringify(override)}`);
+}
+
+export function removeHostOverride(pattern: string): boolean {
+  if (!(pattern in overrides)) {
+    return false;
+  }
+  delete overrides[pattern];
+  saveOverrides();
+  logger.info(`Removed politeness override for ${pattern}`);
+  return true;
+}
+
+/**
+ * Validate an override from a request body; returns an error message or null
+ */
+export function validateHostOverride(pattern: string, value: unknown): string | null {
+  if (!isValidDomainPattern(pattern)) {
+    return 'Host must be a hostname, optionally with * wildcards (e.g. *.example.com)';
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'Override must be an object';
+  }
+
+  for (const [field, setting] of Object.entries(value)) {
+    switch (field) {
+      case 'maxConcurrent':
+        if (!Number.isInteger(setting) || (setting as number) < 1) {
+          return 'maxConcurrent must be a positive integer';
+        }
+        break;
+      case 'minDelay':
+        if (!Number.isInteger(setting) || (setting as number) < 0) {
+          return 'minDelay must be a non-negative integer (milliseconds)';
+        }
+        break;
+      case 'honorCrawlDelay':
+        if (typeof setting !== 'boolean') {
+          return 'honorCrawlDelay must be a boolean';
+        }
+        break;
+      default:
+        return `Unknown override field: ${field}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,426 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import winston from 'winston';
+import { ErrorCode, parseError, sendErrorResponse } from './errorHandler';
+import { WebhookDelivery, deliverJobWebhook } from './webhooks';
+import { requestQueue } from './requestQueue';
+import { getApiKey } from './apiKeyStore';
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'jobs' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+/**
+ * A scrape of one page or a crawl of a site, run in the background.
+ * The synchronous routes run the same jobs and wait for them.
+ */
+export type JobType = 'scrape' | 'crawl';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export const JOB_TYPES: JobType[] = ['scrape', 'crawl'];
+
+// Pages done out of the pages planned; the total grows once a crawl has picked its subpages
+export interface JobProgress {
+  stage: string;
+  completed: number;
+  total: number;
+}
+
+export interface JobError {
+  code: ErrorCode;
+  message: string;
+  details?: any;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  url: string;
+  requestId: string;
+  tenant: string | null;
+  keyId: string | null;
+  progress: JobProgress;
+  // The body the synchronous route would have returned
+  result?: any;
+  error?: JobError;
+  // Runs so far; background jobs are retried after failures and restarts
+  attempts: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // When a finished job is forgotten
+  expiresAt?: string;
+  // Where the outcome is POSTed when the job finishes, and how that went
+  callbackUrl?: string;
+  webhook?: WebhookDelivery;
+}
+
+/**
+ * What a job runner gets: its record, a signal aborted on cancellation or timeout,
+ * and hooks to report that it started and how far it got
+ */
+export interface JobContext {
+  job: Job;
+  signal: AbortSignal;
+  started(): void;
+  setProgress(progress: Partial<JobProgress>): void;
+  // Wait on something outside the queue, such as a busy host, without holding a queue
+  // slot; the job's timeout does not run down meanwhile
+  suspend<R>(wait: () => Promise<R>): Promise<R>;
+}
+
+/**
+ * The parts of a request a runner may use. Background jobs keep a copy in the queue
+ * store so they can run again after a restart.
+ */
+export type JobRequest = Pick<Request, 'body' | 'requestId' | 'user' | 'apiKey' | 'features' | 'credits'>;
+
+export type JobRunner = (req: JobRequest, context: JobContext) => Promise<any>;
+
+export interface JobOptions {
+  // Fail the job after this many milliseconds
+  timeout?: number;
+  // Keep the finished job for GET /api/jobs/:id; synchronous routes have already answered.
+  // Retained jobs are also durable: they survive restarts and are retried when they fail.
+  retain?: boolean;
+  callbackUrl?: string;
+  // Called once if the job fails or is cancelled; `ran` tells whether its runner ever started
+  onFailed?: (ran: boolean) => void;
+}
+
+// What the queue store keeps for a durable job
+interface PersistedJob {
+  job: Job;
+  request: Omit<JobRequest, 'apiKey'> & { apiKeyId: string | null };
+  timeout?: number;
+}
+
+const DURABLE_KIND = 'job';
+
+// How long finished jobs are kept
+const JOB_RETENTION = parseInt(process.env.JOB_RETENTION || '3600000', 10);
+
+const runners = new Map<JobType, JobRunner>();
+const jobs = new Map<string, Job>();
+const controllers = new Map<string, AbortController>();
+// Jobs forgotten as soon as they finish
+const transient = new Set<string>();
+// Resolved when a job finishes, however it finishes
+const finished = new Map<string, { promise: Promise<Job>, resolve: (job: Job) => void }>();
+const failureHooks = new Map<string, (ran: boolean) => void>();
+
+// A job's timeout, which stops running down while the job is suspended
+interface JobTimeout {
+  remaining: number;
+  startedAt: number;
+  timer?: NodeJS.Timeout;
+  suspended: number;
+  expire: () => void;
+}
+
+const timeouts = new Map<string, JobTimeout>();
+
+// Drop finished jobs once their retention has passed
+setInterval(() => {
+  const now = Date.now();
+  jobs.forEach((job, id) => {
+    if (job.expiresAt && new Date(job.expiresAt).getTime() <= now) {
+      jobs.delete(id);
+    }
+  });
+}, 60000).unref();
+
+const isFinished = (job: Job) => job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+// Record the outcome once; whatever the runner does after a cancellation or timeout is ignored
+function finish(job: Job, status: JobStatus, outcome: { result?: any, error?: JobError }): void {
+  if (isFinished(job)) return;
+
+  const now = Date.now();
+  job.status = status;
+  job.result = outcome.result;
+  job.error = outcome.error;
+  job.finishedAt = new Date(now).toISOString();
+  job.expiresAt = new Date(now + JOB_RETENTION).toISOString();
+  controllers.delete(job.id);
+  finished.get(job.id)?.resolve(job);
+  finished.delete(job.id);
+
+  const onFailed = failureHooks.get(job.id);
+  failureHooks.delete(job.id);
+  if (status !== 'completed') {
+    onFailed?.(job.attempts > 0);
+  }
+
+  if (transient.delete(job.id)) {
+    jobs.delete(job.id);
+  }
+  logger.info(`[${job.requestId}] Job ${job.id} ${status}${outcome.error ? `: ${outcome.error.message}` : ''}`);
+
+  if (job.callbackUrl) {
+    deliverJobWebhook(job).catch(error => {
+      logger.error(`[${job.requestId}] Webhook delivery for job ${job.id} crashed:`, error);
+    });
+  }
+}
+
+/**
+ * Register the runner for a job type
+ */
+export function registerJobRunner(type: JobType, runner: JobRunner): void {
+  runners.set(type, runner);
+}
+
+// Track a job in memory and arm its timeout
+function track(job: Job, options: JobOptions): void {
+  const controller = new AbortController();
+  jobs.set(job.id, job);
+  controllers.set(job.id, controller);
+  if (options.retain === false) {
+    transient.add(job.id);
+  }
+  if (options.onFailed) {
+    failureHooks.set(job.id, options.onFailed);
+  }
+  let resolveFinished: (job: Job) => void = () => undefined;
+  const promise = new Promise<Job>(resolve => { resolveFinished = resolve; });
+  finished.set(job.id, { promise, resolve: resolveFinished });
+
+  if (options.timeout) {
+    const timeout: JobTimeout = {
+      remaining: options.timeout,
+      startedAt: Date.now(),
+      suspended: 0,
+      expire: () => {
+        finish(job, 'failed', {
+          error: { code: ErrorCode.TIMEOUT, message: `Request exceeded global timeout of ${options.timeout}ms` }
+        });
+        controller.abort();
+      }
+    };
+    timeout.timer = setTimeout(timeout.expire, timeout.remaining);
+    timeouts.set(job.id, timeout);
+    promise.finally(() => {
+      clearTimeout(timeout.timer);
+      timeouts.delete(job.id);
+    });
+  }
+}
+
+// Run a wait with the job's timeout stopped; it carries on with whatever time was left
+async function withoutTimeout<R>(job: Job, wait: () => Promise<R>): Promise<R> {
+  const timeout = timeouts.get(job.id);
+  if (!timeout) return wait();
+
+  if (timeout.suspended++ === 0) {
+    clearTimeout(timeout.timer);
+    timeout.remaining -= Date.now() - timeout.startedAt;
+  }
+  try {
+    return await wait();
+  } finally {
+    if (--timeout.suspended === 0 && timeouts.has(job.id)) {
+      timeout.startedAt = Date.now();
+      timeout.timer = setTimeout(timeout.expire, Math.max(timeout.remaining, 0));
+    }
+  }
+}
+
+// One run of a job. Failures of a job that has already finished (cancelled or timed out) are
+// swallowed so the queue does not retry it; other failures are left to the queue.
+async function runAttempt(job: Job, req: JobRequest, queueSignal: AbortSignal): Promise<void> {
+  const runner = runners.get(job.type);
+  const controller = controllers.get(job.id);
+  if (!runner || !controller || isFinished(job)) return;
+
+  // The runner stops when the job is cancelled or times out, or when the queue gives up on it
+  const attempt = new AbortController();
+  const abort = () => attempt.abort();
+  [controller.signal, queueSignal].forEach(signal => {
+    if (signal.aborted) abort();
+    else signal.addEventListener('abort', abort, { once: true });
+  });
+
+  job.attempts++;
+  const context: JobContext = {
+    job,
+    signal: attempt.signal,
+    started: () => {
+      if (job.status !== 'queued') return;
+      job.status = 'running';
+      job.startedAt = new Date().toISOString();
+    },
+    setProgress: progress => {
+      if (isFinished(job)) return;
+      job.progress = { ...job.progress, ...progress };
+    },
+    suspend: wait => requestQueue.suspend(queueSignal, () => withoutTimeout(job, wait))
+  };
+
+  try {
+    const result = await runner(req, context);
+    finish(job, 'completed', { result });
+  } catch (error) {
+    if (isFinished(job)) return;
+    throw error;
+  } finally {
+    controller.signal.removeEventListener('abort', abort);
+    queueSignal.removeEventListener('abort', abort);
+  }
+}
+
+function fail(job: Job, error: unknown): void {
+  const { code, message, details } = parseError(error);
+  finish(job, 'failed', { error: { code, message, details } });
+}
+
+/**
+ * Register a job for the request and queue it. Retained jobs are written to the queue store first.
+ * Throws a QueueRejectedError when the queue or the key's lane is full.
+ */
+export function startJob(req: JobRequest, type: JobType, url: string, options: JobOptions = {}): Job {
+  const job: Job = {
+    id: crypto.randomUUID(),
+    type,
+    status: 'queued',
+    url,
+    requestId: req.requestId || Date.now().toString(36) + Math.random().toString(36).substring(2, 7),
+    tenant: req.apiKey?.tenant || null,
+    keyId: req.apiKey?.id || null,
+    progress: { stage: 'queued', completed: 0, total: 1 },
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+    callbackUrl: options.callbackUrl
+  };
+
+  const durable = options.retain !== false;
+  const payload: PersistedJob | undefined = durable ? {
+    job: { ...job },
+    request: {
+      body: req.body,
+      requestId: job.requestId,
+      user: req.user,
+      features: req.features,
+      credits: req.credits,
+      apiKeyId: req.apiKey?.id || null
+    },
+    timeout: options.timeout
+  } : undefined;
+
+  // A full queue is thrown to the caller instead of answering with a job that has already failed
+  requestQueue.checkCapacity(job.id, req.apiKey?.tier);
+
+  // Jobs keep their own timeout, so the queue lets them run as long as they need
+  track(job, options);
+  // Cancelling the job also takes it out of the queue if it has not started
+  requestQueue.enqueue(job.id, signal => runAttempt(job, req, signal), {
+    timeout: 0,
+    signal: controllers.get(job.id)?.signal,
+    lane: req.apiKey?.tier,
+    durable: payload && { kind: DURABLE_KIND, payload, tenant: job.tenant }
+  }).catch(error => fail(job, error));
+
+  logger.info(`[${job.requestId}] Started ${type} job ${job.id} for ${url}${durable ? ' (durable)' : ''}`);
+  return job;
+}
+
+// Track a durable job read back from the queue store, so GET /api/jobs/:id shows it while it waits
+function restore(payload: PersistedJob): Job {
+  let job = jobs.get(payload.job.id);
+  if (!job || isFinished(job)) {
+    job = { ...payload.job, status: 'queued', progress: { stage: 'queued', completed: 0, total: 1 } };
+    track(job, { timeout: payload.timeout });
+    logger.info(`[${job.requestId}] Resumed ${job.type} job ${job.id} for ${job.url}`);
+  }
+  return job;
+}
+
+// Run a durable job read back from the queue store, after a restart or from the dead letters
+requestQueue.registerHandler(DURABLE_KIND, {
+  run: async (payload: PersistedJob, signal: AbortSignal) => {
+    const job = restore(payload);
+
+    // The key may have been revoked while the job was waiting
+    const { apiKeyId, ...request } = payload.request;
+    const apiKey = apiKeyId ? getApiKey(apiKeyId) : null;
+    if (apiKeyId && (!apiKey || apiKey.revoked)) {
+      finish(job, 'failed', { error: { code: ErrorCode.UNAUTHORIZED, message: 'API key was revoked before the job ran' } });
+      return;
+    }
+
+    await runAttempt(job, { ...request, apiKey: apiKey || undefined }, signal);
+  },
+  lane: (payload: PersistedJob) => payload.request.apiKeyId ? getApiKey(payload.request.apiKeyId)?.tier : undefined,
+  queued: (payload: PersistedJob) => {
+    restore(payload);
+  },
+  // Jobs that die during recovery are recorded too, so their status shows the failure
+  deadLettered: (payload: PersistedJob, error: Error) => {
+    fail(jobs.get(payload.job.id) || restore(payload), error);
+  }
+});
+
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * Cancel a queued or running job; returns false when it had already finished
+ */
+export function cancelJob(id: string): boolean {
+  const job = jobs.get(id);
+  if (!job || isFinished(job)) {
+    return false;
+  }
+
+  const controller = controllers.get(id);
+  finish(job, 'cancelled', { error: { code: ErrorCode.CANCELLED, message: 'Job was cancelled' } });
+  // Runners check the signal between pages and stop there
+  controller?.abort();
+  return true;
+}
+
+/**
+ * Resolves with the job once it has finished, however it finished
+ */
+export function waitForJob(job: Job): Promise<Job> {
+  // A cancelled or timed-out job finishes before its runner returns
+  return finished.get(job.id)?.promise || Promise.resolve(job);
+}
+
+/**
+ * Answer a synchronous request with a finished job's result or error
+ */
+export function sendJobResult(res: Response, job: Job): void {
+  if (job.status === 'completed') {
+    res.json(job.result);
+    return;
+  }
+
+  const error = job.error || { code: ErrorCode.SERVER_ERROR, message: 'Job did not complete' };
+  sendErrorResponse(res, error.code, error.message, job.requestId, error.details);
+}
+
+/**
+ * Counts of jobs held in memory by status, for health checks
+ */
+export function getJobCounts(): Record<JobStatus, number> {
+  const counts: Record<JobStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+  jobs.forEach(job => counts[job.status]++);
+  return counts;
+}
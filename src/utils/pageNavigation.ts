@@ -31,6 +31,8 @@ interface NavigationOptions {
   waitForImages?: boolean;
   stabilityDelay?: number;
   requestId?: string;
+  // Stops navigation between steps; the page itself is closed by browserManager.withPage
+  signal?: AbortSignal;
 }
 
 /**
@@ -50,10 +52,12 @@ export async function navigateToPage(
     scrollInterval = 100,
     waitForImages = false,
     stabilityDelay = 500,
-    requestId = 'unknown'
+    requestId = 'unknown',
+    signal
   } = options;
   
   try {
+    signal?.throwIfAborted();
     logger.debug(`[${requestId}] Navigating to ${url} (waitUntil: ${waitUntil})`);
     
     // Navigate to the URL with appropriate wait strategy
@@ -85,6 +89,7 @@ export async function navigateToPage(
     
     // Small delay to let any immediate post-load scripts run
     await page.waitForTimeout(stabilityDelay);
+    signal?.throwIfAborted();
     
     // Check if the page has dynamic content that requires scrolling
     const hasDynamicContent = await page.evaluate(() => {
@@ -115,6 +120,11 @@ export async function navigateToPage(
     
     return true;
   } catch (error) {
+    // An aborted navigation is not a failed one; let the caller stop instead of retrying
+    if (signal?.aborted) {
+      logger.debug(`[${requestId}] Navigation to ${url} aborted`);
+      throw signal.reason;
+    }
     logger.error(`[${requestId}] Navigation failed: ${error instanceof Error ? error.message : String(error)}`);
     return false;
   }
@@ -0,0 +1,324 @@
+import fs from 'fs';
+import path from 'path';
+import winston from 'winston';
+import Database from 'better-sqlite3';
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'queue-store' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+export type QueueEntryStatus = 'pending' | 'running' | 'dead';
+
+/**
+ * A queued task that can be run again after a restart. `kind` names the handler that
+ * runs it and `payload` is everything the handler needs.
+ */
+export interface QueueEntry {
+  id: string;
+  kind: string;
+  payload: any;
+  tenant: string | null;
+  status: QueueEntryStatus;
+  attempts: number;
+  // The queue instance holding the lease; it renews the lease while it is alive
+  owner: string;
+  leaseExpiresAt: number;
+  lastError: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface NewQueueEntry {
+  id: string;
+  kind: string;
+  payload: any;
+  tenant?: string | null;
+}
+
+/**
+ * Storage for durable queue entries. Entries are leased to the queue instance that
+ * holds them; when an instance dies its leases run out and another instance (or the
+ * same one after a restart) claims the entries and runs them again.
+ */
+export interface QueueStore {
+  readonly name: string;
+  add(entry: NewQueueEntry, owner: string, leaseMs: number): void;
+  // Mark an entry as running and count the attempt; returns the attempts so far
+  start(id: string): number;
+  complete(id: string): void;
+  // Put an entry back for another attempt, or move it to the dead letters
+  fail(id: string, error: string, dead: boolean): void;
+  renew(owner: string, leaseMs: number): void;
+  // Let other instances claim this owner's entries straight away
+  release(owner: string): void;
+  claimExpired(owner: string, leaseMs: number, now: number): QueueEntry[];
+  listDead(): QueueEntry[];
+  getDead(id: string): QueueEntry | null;
+  removeDead(id: string): boolean;
+  // Move a dead entry back to pending with its attempts reset
+  retryDead(id: string, owner: string, leaseMs: number): QueueEntry | null;
+  close(): void;
+}
+
+const DATA_DIR = path.join(__dirname, '../../data');
+const QUEUE_DB = process.env.QUEUE_DB || path.join(DATA_DIR, 'queue.db');
+
+/**
+ * Entries kept in the process. Nothing survives a restart, but retries and the
+ * dead letters work the same way as with the durable store.
+ */
+class MemoryQueueStore implements QueueStore {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, QueueEntry>();
+
+  add(entry: NewQueueEntry, owner: string, leaseMs: number): void {
+    const now = Date.now();
+    this.entries.set(entry.id, {
+      id: entry.id,
+      kind: entry.kind,
+      payload: entry.payload,
+      tenant: entry.tenant ?? null,
+      status: 'pending',
+      attempts: 0,
+      owner,
+      leaseExpiresAt: now + leaseMs,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  start(id: string): number {
+    const entry = this.entries.get(id);
+    if (!entry) return 1;
+    entry.status = 'running';
+    entry.attempts++;
+    entry.updatedAt = Date.now();
+    return entry.attempts;
+  }
+
+  complete(id: string): void {
+    this.entries.delete(id);
+  }
+
+  fail(id: string, error: string, dead: boolean): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    entry.status = dead ? 'dead' : 'pending';
+    entry.lastError = error;
+    entry.updatedAt = Date.now();
+  }
+
+  renew(owner: string, leaseMs: number): void {
+    const leaseExpiresAt = Date.now() + leaseMs;
+    this.entries.forEach(entry => {
+      if (entry.owner === owner && entry.status !== 'dead') entry.leaseExpiresAt = leaseExpiresAt;
+    });
+  }
+
+  release(owner: string): void {
+    this.entries.forEach(entry => {
+      if (entry.owner === owner && entry.status !== 'dead') entry.leaseExpiresAt = 0;
+    });
+  }
+
+  claimExpired(owner: string, leaseMs: number, now: number): QueueEntry[] {
+    const claimed: QueueEntry[] = [];
+    this.entries.forEach(entry => {
+      if (entry.status !== 'dead' && entry.leaseExpiresAt < now) {
+        entry.owner = owner;
+        entry.leaseExpiresAt = now + leaseMs;
+        claimed.push({ ...entry });
+      }
+    });
+    return claimed;
+  }
+
+  listDead(): QueueEntry[] {
+    return Array.from(this.entries.values()).filter(entry => entry.status === 'dead');
+  }
+
+  getDead(id: string): QueueEntry | null {
+    const entry = this.entries.get(id);
+    return entry && entry.status === 'dead' ? entry : null;
+  }
+
+  removeDead(id: string): boolean {
+    return this.getDead(id) ? this.entries.delete(id) : false;
+  }
+
+  retryDead(id: string, owner: string, leaseMs: number): QueueEntry | null {
+    const entry = this.getDead(id);
+    if (!entry) return null;
+    Object.assign(entry, { status: 'pending', attempts: 0, owner, leaseExpiresAt: Date.now() + leaseMs, updatedAt: Date.now() });
+    return { ...entry };
+  }
+
+  close(): void {
+    this.entries.clear();
+  }
+}
+
+interface QueueRow {
+  id: string;
+  kind: string;
+  payload: string;
+  tenant: string | null;
+  status: QueueEntryStatus;
+  attempts: number;
+  owner: string;
+  lease_expires_at: number;
+  last_error: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+const toEntry = (row: QueueRow): QueueEntry => ({
+  id: row.id,
+  kind: row.kind,
+  payload: JSON.parse(row.payload),
+  tenant: row.tenant,
+  status: row.status,
+  attempts: row.attempts,
+  owner: row.owner,
+  leaseExpiresAt: row.lease_expires_at,
+  lastError: row.last_error,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+/**
+ * SQLite store, one row per entry. Claims run in an immediate transaction so two
+ * instances sharing the database never claim the same entry.
+ */
+class SqliteQueueStore implements QueueStore {
+  readonly name = 'sqlite';
+  private readonly db: Database.Database;
+
+  constructor(file: string) {
+    if (!fs.existsSync(path.dirname(file))) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS queue_entries (
+        id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        tenant TEXT,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        owner TEXT NOT NULL,
+        lease_expires_at INTEGER NOT NULL,
+        last_error TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS queue_entries_lease ON queue_entries (status, lease_expires_at);
+    `);
+  }
+
+  add(entry: NewQueueEntry, owner: string, leaseMs: number): void {
+    const now = Date.now();
+    this.db.prepare(`
+      INSERT INTO queue_entries (id, kind, payload, tenant, status, attempts, owner, lease_expires_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 'pending', 0, ?, ?, ?, ?)
+    `).run(entry.id, entry.kind, JSON.stringify(entry.payload), entry.tenant ?? null, owner, now + leaseMs, now, now);
+  }
+
+  start(id: string): number {
+    const row = this.db.prepare(`
+      UPDATE queue_entries SET status = 'running', attempts = attempts + 1, updated_at = ?
+      WHERE id = ? RETURNING attempts
+    `).get(Date.now(), id) as { attempts: number } | undefined;
+    return row?.attempts ?? 1;
+  }
+
+  complete(id: string): void {
+    this.db.prepare('DELETE FROM queue_entries WHERE id = ?').run(id);
+  }
+
+  fail(id: string, error: string, dead: boolean): void {
+    this.db.prepare('UPDATE queue_entries SET status = ?, last_error = ?, updated_at = ? WHERE id = ?')
+      .run(dead ? 'dead' : 'pending', error, Date.now(), id);
+  }
+
+  renew(owner: string, leaseMs: number): void {
+    this.db.prepare(`UPDATE queue_entries SET lease_expires_at = ? WHERE owner = ? AND status != 'dead'`)
+      .run(Date.now() + leaseMs, owner);
+  }
+
+  release(owner: string): void {
+    this.db.prepare(`UPDATE queue_entries SET lease_expires_at = 0 WHERE owner = ? AND status != 'dead'`).run(owner);
+  }
+
+  claimExpired(owner: string, leaseMs: number, now: number): QueueEntry[] {
+    const claim = this.db.transaction(() => {
+      const rows = this.db.prepare(`
+        SELECT * FROM queue_entries WHERE status != 'dead' AND lease_expires_at < ? ORDER BY created_at
+      `).all(now) as QueueRow[];
+      const update = this.db.prepare('UPDATE queue_entries SET owner = ?, lease_expires_at = ? WHERE id = ?');
+      rows.forEach(row => update.run(owner, now + leaseMs, row.id));
+      return rows.map(row => ({ ...toEntry(row), owner, leaseExpiresAt: now + leaseMs }));
+    });
+    return claim.immediate();
+  }
+
+  listDead(): QueueEntry[] {
+    return (this.db.prepare(`SELECT * FROM queue_entries WHERE status = 'dead' ORDER BY updated_at DESC`).all() as QueueRow[])
+      .map(toEntry);
+  }
+
+  getDead(id: string): QueueEntry | null {
+    const row = this.db.prepare(`SELECT * FROM queue_entries WHERE id = ? AND status = 'dead'`).get(id) as QueueRow | undefined;
+    return row ? toEntry(row) : null;
+  }
+
+  removeDead(id: string): boolean {
+    return this.db.prepare(`DELETE FROM queue_entries WHERE id = ? AND status = 'dead'`).run(id).changes > 0;
+  }
+
+  retryDead(id: string, owner: string, leaseMs: number): QueueEntry | null {
+    const now = Date.now();
+    const row = this.db.prepare(`
+      UPDATE queue_entries SET status = 'pending', attempts = 0, owner = ?, lease_expires_at = ?, updated_at = ?
+      WHERE id = ? AND status = 'dead' RETURNING *
+    `).get(owner, now + leaseMs, now, id) as QueueRow | undefined;
+    return row ? toEntry(row) : null;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Create the store selected by QUEUE_STORE (`memory` by default, or `sqlite`)
+ */
+export function createQueueStore(type: string = process.env.QUEUE_STORE || 'memory'): QueueStore {
+  switch (type) {
+    case 'sqlite':
+      logger.info(`Using SQLite queue store at ${QUEUE_DB}`);
+      return new SqliteQueueStore(QUEUE_DB);
+    case 'memory':
+      return new MemoryQueueStore();
+    default:
+      throw new Error(`Unknown QUEUE_STORE "${type}", expected memory or sqlite`);
+  }
+}
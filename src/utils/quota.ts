@@ -0,0 +1,276 @@
+import winston from 'winston';
+import { ApiKeyRecord, Tier } from './apiKeyStore';
+import { getTenantRateLimit } from './tenantStore';
+import { QuotaStore, createQuotaStore } from './quotaStore';
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'quota' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+/**
+ * Quota windows, from short bursts to the monthly budget. Windows count
+ * credits, so costly operations use up more of them (see credits.ts), and
+ * also the number of requests. Windows are fixed
+ * and aligned to the clock (UTC for days and months), so every key's hour
+ * starts on the hour and its monthly budget resets on the 1st.
+ */
+export type QuotaWindow = 'minute' | 'hour' | 'day' | 'month';
+
+export const QUOTA_WINDOWS: QuotaWindow[] = ['minute', 'hour', 'day', 'month'];
+
+/**
+ * Requests allowed per window; null means unlimited
+ */
+export type QuotaLimits = Record<QuotaWindow, number | null>;
+
+export interface WindowUsage {
+  limit: number | null;
+  // Credits used in the window
+  used: number;
+  remaining: number | null;
+  requests: number;
+  resetAt: string;
+}
+
+export type QuotaUsage = Record<QuotaWindow, WindowUsage>;
+
+export interface QuotaResult {
+  allowed: boolean;
+  // The window that rejected the request, when it was rejected
+  exceeded?: QuotaWindow;
+  usage: QuotaUsage;
+}
+
+// Default budgets per tier; keys can override any window and tenants the per-minute limit
+export const DEFAULT_QUOTAS: Record<Tier, QuotaLimits> = {
+  free_user: { minute: 5, hour: 50, day: 500, month: 5000 },
+  pro_user: { minute: 30, hour: 500, day: 5000, month: 100000 },
+  admin: { minute: null, hour: null, day: null, month: null }
+};
+
+// Callers without a valid key share the free tier budget per IP
+const ANONYMOUS_QUOTAS = DEFAULT_QUOTAS.free_user;
+
+/**
+ * Credits and requests counted in one window, which began at `start`
+ */
+export interface WindowCounter {
+  start: number;
+  credits: number;
+  requests: number;
+}
+
+export type QuotaCounters = Record<QuotaWindow, WindowCounter>;
+
+// Last hourly request count seen per subject, for policies that need it synchronously
+const hourlyRequests = new Map<string, WindowCounter>();
+
+// Counters live in the store selected by RATE_LIMIT_STORE, created on first use
+let store: QuotaStore | null = null;
+
+const getStore = (): QuotaStore => {
+  if (!store) {
+    store = createQuotaStore();
+  }
+  return store;
+};
+
+/**
+ * Count against a different store from now on; returns the previous one so the caller can close it
+ */
+export function setQuotaStore(next: QuotaStore): QuotaStore | null {
+  const previous = store;
+  store = next;
+  return previous;
+}
+
+export function windowStart(window: QuotaWindow, now: number): number {
+  const date = new Date(now);
+  switch (window) {
+    case 'minute':
+      return Math.floor(now / 60000) * 60000;
+    case 'hour':
+      return Math.floor(now / 3600000) * 3600000;
+    case 'day':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+}
+
+export function windowEnd(window: QuotaWindow, start: number): number {
+  const date = new Date(start);
+  switch (window) {
+    case 'minute':
+      return start + 60000;
+    case 'hour':
+      return start + 3600000;
+    case 'day':
+      return start + 86400000;
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  }
+}
+
+/**
+ * The counter key for a caller; keys are scoped by tenant, anonymous callers by IP
+ */
+export function getQuotaSubject(record: ApiKeyRecord | null, ip: string | undefined): string {
+  return record ? `${record.tenant}:${record.id}` : `ip:${ip || 'unknown'}`;
+}
+
+/**
+ * Limits for a key: its own overrides, then the tenant's per-minute limit, then the tier default
+ */
+export function getQuotaLimits(record: ApiKeyRecord | null): QuotaLimits {
+  if (!record) {
+    return ANONYMOUS_QUOTAS;
+  }
+
+  const limits = { ...DEFAULT_QUOTAS[record.tier] };
+  if (record.tier !== 'admin') {
+    limits.minute = getTenantRateLimit(record.tenant, record.tier) ?? limits.minute;
+  }
+  return { ...limits, ...record.quotas };
+}
+
+/**
+ * Empty counters for the windows containing `now`
+ */
+export function emptyCounters(now: number): QuotaCounters {
+  const counters = {} as QuotaCounters;
+  for (const window of QUOTA_WINDOWS) {
+    counters[window] = { start: windowStart(window, now), credits: 0, requests: 0 };
+  }
+  return counters;
+}
+
+export function toUsage(windows: QuotaCounters, limits: QuotaLimits): QuotaUsage {
+  const usage = {} as QuotaUsage;
+  for (const window of QUOTA_WINDOWS) {
+    const { start, credits, requests } = windows[window];
+    const limit = limits[window];
+    usage[window] = {
+      limit,
+      used: credits,
+      remaining: limit === null ? null : Math.max(limit - credits, 0),
+      requests,
+      resetAt: new Date(windowEnd(window, start)).toISOString()
+    };
+  }
+  return usage;
+}
+
+/**
+ * The exhausted window that resets last, since that is when the caller can retry
+ */
+export function findExceededWindow(windows: QuotaCounters, limits: QuotaLimits, credits: number): QuotaWindow | undefined {
+  return QUOTA_WINDOWS
+    .filter(window => limits[window] !== null && windows[window].credits + credits > (limits[window] as number))
+    .pop();
+}
+
+const rememberHourlyRequests = (subject: string, usage: QuotaUsage) => {
+  // Only keys are passed to policies
+  if (subject.startsWith('ip:')) return;
+  hourlyRequests.set(subject, {
+    start: new Date(usage.hour.resetAt).getTime() - 3600000,
+    credits: usage.hour.used,
+    requests: usage.hour.requests
+  });
+};
+
+/**
+ * Count a request costing `credits` against every window. Rejected requests are
+ * not counted, so a caller that hits the per-minute limit does not burn its daily budget.
+ * If the store cannot be reached the request is let through rather than failing.
+ */
+export async function consumeQuota(subject: string, limits: QuotaLimits, credits: number = 1, now: number = Date.now()): Promise<QuotaResult> {
+  try {
+    const result = await getStore().take(subject, limits, credits, true, now);
+    rememberHourlyRequests(subject, result.usage);
+    return result;
+  } catch (error) {
+    logger.error(`Quota store ${getStore().name} unavailable, allowing request:`, error);
+    return { allowed: true, usage: toUsage(emptyCounters(now), limits) };
+  }
+}
+
+/**
+ * Take more credits for a request that was already counted
+ */
+export async function reserveQuota(subject: string, limits: QuotaLimits, credits: number, now: number = Date.now()): Promise<QuotaResult> {
+  try {
+    return await getStore().take(subject, limits, credits, false, now);
+  } catch (error) {
+    logger.error(`Quota store ${getStore().name} unavailable, allowing request:`, error);
+    return { allowed: true, usage: toUsage(emptyCounters(now), limits) };
+  }
+}
+
+/**
+ * Give back credits consumed at `consumedAt`. Windows that have rolled over since
+ * are left alone, so a refund never lends credits to a new window.
+ */
+export async function refundQuota(subject: string, credits: number, consumedAt: number, now: number = Date.now()): Promise<void> {
+  try {
+    await getStore().refund(subject, credits, consumedAt, now);
+  } catch (error) {
+    logger.error(`Could not refund ${credits} credits to ${subject}:`, error);
+  }
+}
+
+/**
+ * Usage for a subject without counting a request
+ */
+export async function getQuotaUsage(subject: string, limits: QuotaLimits, now: number = Date.now()): Promise<QuotaUsage> {
+  return getStore().usage(subject, limits, now);
+}
+
+/**
+ * Name of the configured counter store
+ */
+export function getQuotaStoreName(): string {
+  return getStore().name;
+}
+
+/**
+ * Requests a key has made in the current hour, exposed to policies as `user.requests_per_hour`.
+ * This is the count returned to this instance for the key's latest request.
+ */
+export function getRequestsThisHour(record: ApiKeyRecord, now: number = Date.now()): number {
+  const counter = hourlyRequests.get(getQuotaSubject(record, undefined));
+  return counter && counter.start === windowStart('hour', now) ? counter.requests : 0;
+}
+
+/**
+ * Validate quota overrides from a request body; returns an error message or null
+ */
+export function validateQuotaLimits(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'quotas must be an object keyed by window';
+  }
+
+  for (const [window, limit] of Object.entries(value)) {
+    if (!(QUOTA_WINDOWS as string[]).includes(window)) {
+      return `Unknown quota window: ${window}`;
+    }
+    if (limit !== null && (!Number.isInteger(limit) || (limit as number) < 0)) {
+      return `quotas.${window} must be a non-negative integer or null`;
+    }
+  }
+  return null;
+}
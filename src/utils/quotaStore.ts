@@ -0,0 +1,349 @@
+import fs from 'fs';
+import path from 'path';
+import winston from 'winston';
+import Redis from 'ioredis';
+import Database from 'better-sqlite3';
+import {
+  QUOTA_WINDOWS,
+  QuotaCounters,
+  QuotaLimits,
+  QuotaResult,
+  QuotaUsage,
+  QuotaWindow,
+  emptyCounters,
+  findExceededWindow,
+  toUsage,
+  windowEnd,
+  windowStart
+} from './quota';
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'quota-store' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+/**
+ * Storage for quota counters. Every instance that shares a store shares its
+ * limits; the in-memory store only counts the requests of its own process.
+ */
+export interface QuotaStore {
+  readonly name: string;
+  // Take credits from every window, or none if any window would be exceeded
+  take(subject: string, limits: QuotaLimits, credits: number, countRequest: boolean, now: number): Promise<QuotaResult>;
+  // Give back credits in the windows that still contain `consumedAt`
+  refund(subject: string, credits: number, consumedAt: number, now: number): Promise<void>;
+  usage(subject: string, limits: QuotaLimits, now: number): Promise<QuotaUsage>;
+  close(): Promise<void>;
+}
+
+const RATE_LIMIT_DB = process.env.RATE_LIMIT_DB || path.join(__dirname, '../../data/rate_limits.db');
+const REDIS_PREFIX = process.env.RATE_LIMIT_REDIS_PREFIX || 'scrapebase:quota:';
+
+// How often counters from past months are dropped
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Counters in process memory; the default for a single instance
+ */
+class MemoryQuotaStore implements QuotaStore {
+  readonly name = 'memory';
+  private counters = new Map<string, QuotaCounters>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor() {
+    // A subject whose month has rolled over has nothing left worth keeping
+    this.sweepTimer = setInterval(() => {
+      const month = windowStart('month', Date.now());
+      this.counters.forEach((windows, subject) => {
+        if (windows.month.start < month) {
+          this.counters.delete(subject);
+        }
+      });
+    }, SWEEP_INTERVAL);
+    this.sweepTimer.unref();
+  }
+
+  async take(subject: string, limits: QuotaLimits, credits: number, countRequest: boolean, now: number): Promise<QuotaResult> {
+    const windows = this.current(subject, now);
+
+    const exceeded = findExceededWindow(windows, limits, credits);
+    if (exceeded) {
+      return { allowed: false, exceeded, usage: toUsage(windows, limits) };
+    }
+
+    QUOTA_WINDOWS.forEach(window => {
+      windows[window].credits += credits;
+      if (countRequest) {
+        windows[window].requests++;
+      }
+    });
+    return { allowed: true, usage: toUsage(windows, limits) };
+  }
+
+  async refund(subject: string, credits: number, consumedAt: number, now: number): Promise<void> {
+    const windows = this.current(subject, now);
+    QUOTA_WINDOWS.forEach(window => {
+      if (windows[window].start === windowStart(window, consumedAt)) {
+        windows[window].credits = Math.max(windows[window].credits - credits, 0);
+      }
+    });
+  }
+
+  async usage(subject: string, limits: QuotaLimits, now: number): Promise<QuotaUsage> {
+    return toUsage(this.current(subject, now), limits);
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+  }
+
+  // Current counters for a subject, resetting any window that has rolled over
+  private current(subject: string, now: number): QuotaCounters {
+    const fresh = emptyCounters(now);
+    const windows = this.counters.get(subject) || fresh;
+
+    for (const window of QUOTA_WINDOWS) {
+      if (windows[window].start !== fresh[window].start) {
+        windows[window] = fresh[window];
+      }
+    }
+    this.counters.set(subject, windows);
+    return windows;
+  }
+}
+
+/**
+ * Counters in Redis (or anything speaking the Redis protocol). Each window is a
+ * pair of keys named after its start time that expire with the window. Credits
+ * are added optimistically in one MULTI and taken back if a window overflowed,
+ * so concurrent requests may be rejected together but never over-admitted.
+ */
+class RedisQuotaStore implements QuotaStore {
+  readonly name = 'redis';
+  private readonly redis: Redis;
+
+  constructor(url: string) {
+    this.redis = new Redis(url, {
+      // Give up on a command after one reconnect attempt rather than holding requests while Redis is down
+      maxRetriesPerRequest: 1
+    });
+    this.redis.on('error', (error) => {
+      logger.error('Redis quota store error:', error.message);
+    });
+  }
+
+  async take(subject: string, limits: QuotaLimits, credits: number, countRequest: boolean, now: number): Promise<QuotaResult> {
+    const windows = emptyCounters(now);
+    const add = this.redis.multi();
+    QUOTA_WINDOWS.forEach(window => {
+      const { credits: creditsKey, requests: requestsKey, expireAt } = this.keys(subject, window, windows[window].start);
+      add.incrby(creditsKey, credits).expireat(creditsKey, expireAt);
+      add.incrby(requestsKey, countRequest ? 1 : 0).expireat(requestsKey, expireAt);
+    });
+
+    // Four replies per window: credits, expire, requests, expire
+    const replies = await add.exec();
+    QUOTA_WINDOWS.forEach((window, index) => {
+      windows[window].credits = Number(this.reply(replies, index * 4));
+      windows[window].requests = Number(this.reply(replies, index * 4 + 2));
+    });
+
+    // The counts include this request, so check them without adding the credits again
+    const exceeded = findExceededWindow(windows, limits, 0);
+    if (!exceeded) {
+      return { allowed: true, usage: toUsage(windows, limits) };
+    }
+
+    const undo = this.redis.multi();
+    QUOTA_WINDOWS.forEach(window => {
+      const { credits: creditsKey, requests: requestsKey } = this.keys(subject, window, windows[window].start);
+      undo.decrby(creditsKey, credits);
+      if (countRequest) {
+        undo.decr(requestsKey);
+      }
+      windows[window].credits -= credits;
+      windows[window].requests -= countRequest ? 1 : 0;
+    });
+    await undo.exec();
+
+    return { allowed: false, exceeded, usage: toUsage(windows, limits) };
+  }
+
+  async refund(subject: string, credits: number, consumedAt: number, now: number): Promise<void> {
+    const current = emptyCounters(now);
+    const refund = this.redis.multi();
+    QUOTA_WINDOWS
+      .filter(window => current[window].start === windowStart(window, consumedAt))
+      .forEach(window => {
+        refund.decrby(this.keys(subject, window, current[window].start).credits, credits);
+      });
+    await refund.exec();
+  }
+
+  async usage(subject: string, limits: QuotaLimits, now: number): Promise<QuotaUsage> {
+    const windows = emptyCounters(now);
+    const keys = QUOTA_WINDOWS.flatMap(window => {
+      const { credits, requests } = this.keys(subject, window, windows[window].start);
+      return [credits, requests];
+    });
+
+    const values = await this.redis.mget(...keys);
+    QUOTA_WINDOWS.forEach((window, index) => {
+      // Refunds racing a rollback can dip below zero briefly
+      windows[window].credits = Math.max(Number(values[index * 2] || 0), 0);
+      windows[window].requests = Number(values[index * 2 + 1] || 0);
+    });
+    return toUsage(windows, limits);
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  private keys(subject: string, window: QuotaWindow, start: number): { credits: string, requests: string, expireAt: number } {
+    const base = `${REDIS_PREFIX}${subject}:${window}:${start}`;
+    // Keep keys a minute past the window end so late refunds find them
+    const expireAt = Math.ceil(windowEnd(window, start) / 1000) + 60;
+    return { credits: `${base}:credits`, requests: `${base}:requests`, expireAt };
+  }
+
+  private reply(replies: [Error | null, unknown][] | null, index: number): unknown {
+    if (!replies) {
+      throw new Error('Redis transaction was aborted');
+    }
+    const [error, value] = replies[index];
+    if (error) {
+      throw error;
+    }
+    return value;
+  }
+}
+
+/**
+ * Counters in a SQLite database, shared by every process on the same host.
+ * Each take runs in an immediate transaction so concurrent writers queue up.
+ */
+class SqliteQuotaStore implements QuotaStore {
+  readonly name = 'sqlite';
+  private readonly db: Database.Database;
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(file: string) {
+    if (!fs.existsSync(path.dirname(file))) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS quota_counters (
+        subject TEXT NOT NULL,
+        window TEXT NOT NULL,
+        start INTEGER NOT NULL,
+        credits INTEGER NOT NULL,
+        requests INTEGER NOT NULL,
+        PRIMARY KEY (subject, window)
+      )
+    `);
+
+    // Rows for windows that ended over a month ago will never be read again
+    this.sweepTimer = setInterval(() => {
+      try {
+        this.db.prepare('DELETE FROM quota_counters WHERE start < ?').run(windowStart('month', Date.now()) - 31 * 86400000);
+      } catch (error) {
+        logger.error('Error sweeping quota counters:', error);
+      }
+    }, SWEEP_INTERVAL);
+    this.sweepTimer.unref();
+  }
+
+  async take(subject: string, limits: QuotaLimits, credits: number, countRequest: boolean, now: number): Promise<QuotaResult> {
+    const save = this.db.prepare(`
+      INSERT INTO quota_counters (subject, window, start, credits, requests) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (subject, window) DO UPDATE SET start = excluded.start, credits = excluded.credits, requests = excluded.requests
+    `);
+
+    return this.db.transaction((): QuotaResult => {
+      const windows = this.read(subject, now);
+
+      const exceeded = findExceededWindow(windows, limits, credits);
+      if (exceeded) {
+        return { allowed: false, exceeded, usage: toUsage(windows, limits) };
+      }
+
+      QUOTA_WINDOWS.forEach(window => {
+        windows[window].credits += credits;
+        windows[window].requests += countRequest ? 1 : 0;
+        save.run(subject, window, windows[window].start, windows[window].credits, windows[window].requests);
+      });
+      return { allowed: true, usage: toUsage(windows, limits) };
+    }).immediate();
+  }
+
+  async refund(subject: string, credits: number, consumedAt: number, now: number): Promise<void> {
+    const statement = this.db.prepare(
+      'UPDATE quota_counters SET credits = MAX(credits - ?, 0) WHERE subject = ? AND window = ? AND start = ?'
+    );
+    this.db.transaction(() => {
+      QUOTA_WINDOWS
+        .filter(window => windowStart(window, now) === windowStart(window, consumedAt))
+        .forEach(window => statement.run(credits, subject, window, windowStart(window, consumedAt)));
+    }).immediate();
+  }
+
+  async usage(subject: string, limits: QuotaLimits, now: number): Promise<QuotaUsage> {
+    return toUsage(this.read(subject, now), limits);
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    this.db.close();
+  }
+
+  // Stored counters for the current windows; rows from earlier windows count as empty
+  private read(subject: string, now: number): QuotaCounters {
+    const windows = emptyCounters(now);
+    const rows = this.db.prepare('SELECT window, start, credits, requests FROM quota_counters WHERE subject = ?')
+      .all(subject) as { window: QuotaWindow, start: number, credits: number, requests: number }[];
+
+    rows.forEach(row => {
+      if (windows[row.window] && windows[row.window].start === row.start) {
+        windows[row.window] = { start: row.start, credits: row.credits, requests: row.requests };
+      }
+    });
+    return windows;
+  }
+}
+
+/**
+ * Create the store selected by RATE_LIMIT_STORE: `memory` (default), `redis` or `sqlite`
+ */
+export function createQuotaStore(type: string = process.env.RATE_LIMIT_STORE || 'memory'): QuotaStore {
+  switch (type) {
+    case 'redis': {
+      const url = process.env.REDIS_URL || 'redis://127.0.0.1:6379';
+      logger.info(`Using Redis quota store at ${url.replace(/\/\/[^@]*@/, '//***@')}`);
+      return new RedisQuotaStore(url);
+    }
+    case 'sqlite':
+      logger.info(`Using SQLite quota store at ${RATE_LIMIT_DB}`);
+      return new SqliteQuotaStore(RATE_LIMIT_DB);
+    case 'memory':
+      return new MemoryQuotaStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${type}", expected memory, redis or sqlite`);
+  }
+}
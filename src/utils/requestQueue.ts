@@ -1,4 +1,8 @@
+import crypto from 'crypto';
+import os from 'os';
 import winston from 'winston';
+import { QueueEntry, QueueStore, createQueueStore } from './queueStore';
+import { Tier } from './apiKeyStore';
 
 const logger = winston.createLogger({
   level: 'debug', // Show ALL logs including debug
@@ -17,84 +21,304 @@ const logger = winston.createLogger({
   ]
 });
 
+/**
+ * A task that is written to the queue store, so it survives restarts and is retried
+ * when it fails. `kind` names the handler that runs it again from `payload`.
+ */
+export interface DurableTask {
+  kind: string;
+  payload: any;
+  // Shown to admins of this tenant in the dead letters
+  tenant?: string | null;
+}
+
+/**
+ * Runs durable tasks of one kind after they were recovered from the store or retried from the dead letters
+ */
+export interface DurableHandler {
+  run(payload: any, signal: AbortSignal): Promise<any>;
+  // Lane to queue a recovered task in
+  lane?(payload: any): string | undefined;
+  // Called when a task read back from the store is queued again, before it runs
+  queued?(payload: any): void;
+  // Called when a recovered task runs out of attempts; tasks enqueued in this process reject instead
+  deadLettered?(payload: any, error: Error): void;
+}
+
+export interface EnqueueOptions {
+  durable?: DurableTask;
+  // Priority lane, usually the caller's tier; unknown lanes go to the lowest priority one
+  lane?: string;
+  // Overrides the queue's request timeout; 0 lets the task run as long as it needs
+  timeout?: number;
+  // Aborting it drops the task if it is still waiting, or aborts it if it is running
+  signal?: AbortSignal;
+}
+
+export interface DurabilityOptions {
+  store?: QueueStore;
+  // Attempts before a durable task is moved to the dead letters
+  maxAttempts?: number;
+  // How long a lease lasts without being renewed before another instance may take the task
+  leaseDuration?: number;
+  // Delay before the first retry; each later retry waits twice as long
+  retryDelay?: number;
+}
+
+/**
+ * A priority lane. Lanes are listed from highest to lowest priority; when several have
+ * work waiting, each gets turns in proportion to its weight, so low lanes never starve.
+ */
+export interface LaneOptions {
+  name: string;
+  weight: number;
+  // Most items this lane may have waiting; the queue-wide limit still applies
+  maxQueued?: number;
+}
+
+type Lane<T> = LaneOptions & {
+  items: QueueItem<T>[];
+  active: number;
+  // Smooth weighted round-robin state: grows by the weight every turn, drops when picked
+  credit: number;
+};
+
+export interface LaneStatus {
+  active: number;
+  pending: number;
+  weight: number;
+  maxQueued: number | null;
+}
+
+export interface QueueStatus {
+  active: number;
+  pending: number;
+  // Tasks finished, successfully or not, since the process started
+  completed: number;
+  // Moving average of task durations in milliseconds
+  averageDuration: number;
+  durable: number;
+  store: string;
+  lanes: Record<string, LaneStatus>;
+}
+
 // Queue item type
 type QueueItem<T> = {
   id: string;
-  task: () => Promise<T>;
+  // Gets a signal that is aborted when the task times out or the caller's signal is aborted
+  task: (signal: AbortSignal) => Promise<T>;
   resolve: (value: T | PromiseLike<T>) => void;
   reject: (reason?: any) => void;
   abortController: AbortController;
   startTime: number;
   timeout?: NodeJS.Timeout;
+  requestTimeout: number;
+  durable?: DurableTask;
+  lane: string;
+  signal?: AbortSignal;
+  onAbort?: () => void;
 };
 
 /**
- * Simple in-memory request queue to control concurrency
+ * Raised when the queue cannot take a request, because it is full or the request waited too long.
+ * `retryAfter` is the estimated number of seconds until the queue has room again.
+ */
+export class QueueRejectedError extends Error {
+  constructor(message: string, public readonly retryAfter: number) {
+    super(message);
+    this.name = 'QueueRejectedError';
+  }
+}
+
+/**
+ * Request queue to control concurrency. Plain tasks live only in memory; durable tasks
+ * are also written to the queue store, leased to this instance while it is alive, and
+ * retried up to a limit before they land in the dead letters.
  */
 export class RequestQueue<T> {
-  private queue: QueueItem<T>[] = [];
+  private readonly lanes: Lane<T>[];
   private activeRequests = 0;
+  private completedRequests = 0;
   private readonly maxConcurrent: number;
   private readonly requestTimeout: number;
   private readonly queueTimeout: number;
+  private readonly maxQueued: number;
+  // Moving average of how long tasks take, used to estimate when to retry
+  private averageDuration = 0;
+
+  private readonly store: QueueStore;
+  private readonly maxAttempts: number;
+  private readonly leaseDuration: number;
+  private readonly retryDelay: number;
+  // Identifies this instance's leases in a shared store
+  private readonly owner = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private readonly handlers = new Map<string, DurableHandler>();
+  // Durable tasks held by this instance, queued, running or waiting to retry
+  private readonly held = new Set<string>();
+  private leaseTimer?: NodeJS.Timeout;
+  // Running tasks by the signal they were given, so they can suspend themselves
+  private readonly running = new Map<AbortSignal, Lane<T>>();
+  // Suspended tasks waiting to take a slot again; they go ahead of queued tasks
+  private readonly resuming: Array<() => void> = [];
   
   constructor(
     maxConcurrent = 50, 
     requestTimeout = 60000, 
-    queueTimeout = 30000
+    queueTimeout = 30000,
+    maxQueued = 500,
+    durability: DurabilityOptions = {},
+    lanes: LaneOptions[] = [{ name: 'default', weight: 1 }]
   ) {
     this.maxConcurrent = maxConcurrent;
     this.requestTimeout = requestTimeout;
     this.queueTimeout = queueTimeout;
+    this.maxQueued = maxQueued;
+    this.store = durability.store || createQueueStore('memory');
+    this.maxAttempts = Math.max(durability.maxAttempts ?? 3, 1);
+    this.leaseDuration = durability.leaseDuration ?? 60000;
+    this.retryDelay = durability.retryDelay ?? 5000;
+    this.lanes = lanes.map(lane => ({ ...lane, weight: Math.max(lane.weight, 1), items: [], active: 0, credit: 0 }));
     
     // Log queue status periodically
     setInterval(() => {
-      logger.debug(`Queue status: ${this.activeRequests} active, ${this.queue.length} pending`);
+      const perLane = this.lanes.map(lane => `${lane.name} ${lane.active}/${lane.items.length}`).join(', ');
+      logger.debug(`Queue status: ${this.activeRequests} active, ${this.pendingCount()} pending (${perLane})`);
     }, 10000);
   }
   
   /**
    * Add a task to the queue
    */
-  public async enqueue<R extends T>(id: string, task: () => Promise<R>): Promise<R> {
-    // Create abort controller for this request
-    const abortController = new AbortController();
-    
+  public async enqueue<R extends T>(id: string, task: (signal: AbortSignal) => Promise<R>, options: EnqueueOptions = {}): Promise<R> {
+    options.signal?.throwIfAborted();
+
+    this.checkCapacity(id, options.lane);
+    const lane = this.getLane(options.lane);
+
+    // Written before the caller is told the task was accepted
+    if (options.durable) {
+      this.store.add({ id, ...options.durable }, this.owner, this.leaseDuration);
+    }
+
     // Create a promise that will be resolved when the task completes
     return new Promise<R>((resolve, reject) => {
-      const queueItem: QueueItem<R> = {
+      this.push({
         id,
         task,
         resolve,
         reject,
-        abortController,
-        startTime: Date.now(),
-        timeout: setTimeout(() => {
-          this.handleQueueTimeout(queueItem as unknown as QueueItem<T>);
-        }, this.queueTimeout)
-      };
-      
-      // Add to queue
-      this.queue.push(queueItem as unknown as QueueItem<T>);
-      logger.debug(`[${id}] Added to queue. Queue length: ${this.queue.length}`);
-      
-      // Process queue
-      this.processQueue();
+        requestTimeout: options.timeout ?? this.requestTimeout,
+        durable: options.durable,
+        lane: lane.name,
+        signal: options.signal
+      });
     });
   }
+
+  /**
+   * Throw a QueueRejectedError when the queue or the lane is full; callers that answer
+   * before the task runs check this first, since enqueue only rejects its promise
+   */
+  public checkCapacity(id: string, laneName?: string): void {
+    const pending = this.pendingCount();
+    if (pending >= this.maxQueued) {
+      logger.warn(`[${id}] Queue full with ${pending} pending, rejecting request`);
+      throw new QueueRejectedError(`Server is busy, ${pending} requests are already queued`, this.estimateWait());
+    }
+
+    const lane = this.getLane(laneName);
+    if (lane.maxQueued !== undefined && lane.items.length >= lane.maxQueued) {
+      logger.warn(`[${id}] Lane ${lane.name} full with ${lane.items.length} pending, rejecting request`);
+      throw new QueueRejectedError(`Server is busy, ${lane.items.length} ${lane.name} requests are already queued`, this.estimateWait());
+    }
+  }
+
+  private push<R>(item: Pick<QueueItem<R>, 'id' | 'task' | 'resolve' | 'reject' | 'requestTimeout' | 'durable' | 'lane' | 'signal'>): void {
+    const queueItem: QueueItem<R> = {
+      ...item,
+      // Create abort controller for this request
+      abortController: new AbortController(),
+      startTime: Date.now()
+    };
+
+    if (queueItem.durable) {
+      // Durable tasks wait for as long as it takes
+      this.held.add(queueItem.id);
+    } else {
+      queueItem.timeout = setTimeout(() => {
+        this.handleQueueTimeout(queueItem as unknown as QueueItem<T>);
+      }, this.queueTimeout);
+    }
+    
+    if (queueItem.signal) {
+      queueItem.onAbort = () => this.handleAbort(queueItem as unknown as QueueItem<T>);
+      queueItem.signal.addEventListener('abort', queueItem.onAbort, { once: true });
+    }
+    
+    // Add to its lane
+    const lane = this.getLane(queueItem.lane);
+    lane.items.push(queueItem as unknown as QueueItem<T>);
+    logger.debug(`[${queueItem.id}] Added to ${lane.name} lane. Queue length: ${this.pendingCount()}`);
+
+    // Aborted while waiting to be retried
+    if (queueItem.signal?.aborted) {
+      this.handleAbort(queueItem as unknown as QueueItem<T>);
+      return;
+    }
+    
+    // Process queue
+    this.processQueue();
+  }
   
+  // Unknown or missing lanes fall back to the lowest priority lane
+  private getLane(name?: string): Lane<T> {
+    return this.lanes.find(lane => lane.name === name) || this.lanes[this.lanes.length - 1];
+  }
+
+  private pendingCount(): number {
+    return this.lanes.reduce((total, lane) => total + lane.items.length, 0);
+  }
+
+  /**
+   * Pick the lane whose turn it is among those with work waiting (smooth weighted round-robin).
+   * With weights 8/3/1, twelve turns go 8 to the first lane, 3 to the second and 1 to the third,
+   * interleaved rather than in bursts; ties go to the higher priority lane.
+   */
+  private nextLane(): Lane<T> | null {
+    const waiting = this.lanes.filter(lane => lane.items.length > 0);
+    if (waiting.length === 0) return null;
+
+    let best = waiting[0];
+    let totalWeight = 0;
+    waiting.forEach(lane => {
+      lane.credit += lane.weight;
+      totalWeight += lane.weight;
+      if (lane.credit > best.credit) best = lane;
+    });
+    best.credit -= totalWeight;
+    return best;
+  }
+
   /**
    * Process items in the queue
    */
   private async processQueue(): Promise<void> {
-    // If we're at capacity or queue is empty, do nothing
-    if (this.activeRequests >= this.maxConcurrent || this.queue.length === 0) {
+    // If we're at capacity, do nothing
+    if (this.activeRequests >= this.maxConcurrent) {
+      return;
+    }
+
+    // Suspended tasks were admitted already, so they take a free slot first
+    const resume = this.resuming.shift();
+    if (resume) {
+      resume();
       return;
     }
     
     // Process next item
-    const item = this.queue.shift();
-    if (!item) return;
+    const lane = this.nextLane();
+    const item = lane?.items.shift();
+    if (!lane || !item) return;
     
     // Clear queue timeout
     if (item.timeout) {
@@ -104,72 +328,370 @@ export class RequestQueue<T> {
     
     // Update active requests count
     this.activeRequests++;
+    lane.active++;
     const waitTime = Date.now() - item.startTime;
     logger.debug(`[${item.id}] Starting processing after ${waitTime}ms in queue`);
     
+    let attempt = 1;
+    let timeoutId: NodeJS.Timeout | undefined;
     try {
+      // Inside the try so a store failure releases the slot and counts as a failed attempt
+      if (item.durable) {
+        attempt = this.store.start(item.id);
+      }
+
       // Check if already aborted
       if (item.abortController.signal.aborted) {
         throw new Error('Request aborted while in queue');
       }
       
-      // Set up request timeout
-      const timeoutId = setTimeout(() => {
-        item.abortController.abort();
-        item.reject(new Error(`Request timed out after ${this.requestTimeout}ms`));
-      }, this.requestTimeout);
+      // Set up request timeout; a durable task's attempt fails once the task gives up
+      let timedOut = false;
+      if (item.requestTimeout > 0) {
+        timeoutId = setTimeout(() => {
+          timedOut = true;
+          item.abortController.abort();
+          if (!item.durable) {
+            item.reject(new Error(`Request timed out after ${item.requestTimeout}ms`));
+          }
+        }, item.requestTimeout);
+      }
       
       // Execute the task
-      const result = await item.task();
-      
-      // Clear timeout
-      clearTimeout(timeoutId);
+      this.running.set(item.abortController.signal, lane);
+      const result = await item.task(item.abortController.signal);
+      if (timedOut) {
+        throw new Error(`Request timed out after ${item.requestTimeout}ms`);
+      }
+      this.recordDuration(Date.now() - item.startTime - waitTime);
       
+      if (item.durable) {
+        this.store.complete(item.id);
+        this.held.delete(item.id);
+      }
       // Resolve the promise
       item.resolve(result);
       logger.debug(`[${item.id}] Completed successfully`);
     } catch (error) {
-      item.reject(error);
+      if (item.durable && item.signal?.aborted) {
+        // Stopped by its caller on purpose, so there is nothing to retry
+        this.store.complete(item.id);
+        this.held.delete(item.id);
+        item.reject(error);
+      } else if (item.durable) {
+        this.handleDurableFailure(item, attempt, error);
+      } else {
+        item.reject(error);
+      }
       logger.debug(`[${item.id}] Failed with error: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
+      this.running.delete(item.abortController.signal);
+      // Clear timeout
+      clearTimeout(timeoutId);
+      if (item.onAbort) {
+        item.signal?.removeEventListener('abort', item.onAbort);
+      }
+
       // Update active requests count
       this.activeRequests--;
+      lane.active--;
+      this.completedRequests++;
       
       // Process next item
       this.processQueue();
     }
   }
   
+  /**
+   * Give up a running task's slot while it waits on something outside the queue, such as a
+   * busy host, so other tasks can run meanwhile. `signal` is the one the task was given.
+   * The task takes a slot again before carrying on, ahead of tasks still queued.
+   */
+  public async suspend<R>(signal: AbortSignal, wait: () => Promise<R>): Promise<R> {
+    const lane = this.running.get(signal);
+    if (!lane) {
+      return wait();
+    }
+
+    this.activeRequests--;
+    lane.active--;
+    this.processQueue();
+
+    try {
+      return await wait();
+    } finally {
+      await new Promise<void>(resolve => {
+        this.resuming.push(() => {
+          this.activeRequests++;
+          lane.active++;
+          resolve();
+        });
+        this.processQueue();
+      });
+    }
+  }
+
   /**
    * Handle queue timeout for an item
    */
   private handleQueueTimeout(item: QueueItem<T>): void {
     // Check if item is still in queue
-    const index = this.queue.indexOf(item);
+    const lane = this.getLane(item.lane);
+    const index = lane.items.indexOf(item);
     if (index === -1) return; // Not in queue anymore
     
     // Remove from queue
-    this.queue.splice(index, 1);
+    lane.items.splice(index, 1);
     
     // Reject with timeout error
-    item.reject(new Error(`Request timed out after ${this.queueTimeout}ms waiting in queue`));
+    item.reject(new QueueRejectedError(`Request timed out after ${this.queueTimeout}ms waiting in queue`, this.estimateWait()));
     logger.debug(`[${item.id}] Timeout while waiting in queue`);
   }
   
+  /**
+   * Handle the caller aborting an item: drop it if it is still waiting, otherwise abort the running task
+   */
+  private handleAbort(item: QueueItem<T>): void {
+    const lane = this.getLane(item.lane);
+    const index = lane.items.indexOf(item);
+    if (index === -1) {
+      item.abortController.abort();
+      return;
+    }
+
+    lane.items.splice(index, 1);
+    clearTimeout(item.timeout);
+    if (item.durable) {
+      this.store.complete(item.id);
+      this.held.delete(item.id);
+    }
+    item.reject(new Error('Request aborted while in queue'));
+    logger.debug(`[${item.id}] Aborted while waiting in queue`);
+  }
+  
+  /**
+   * Retry a failed durable task after a backoff, or move it to the dead letters once it is out of attempts
+   */
+  private handleDurableFailure(item: QueueItem<T>, attempt: number, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (attempt >= this.maxAttempts) {
+      this.failInStore(item.id, message, true);
+      this.held.delete(item.id);
+      logger.error(`[${item.id}] Moved to dead letters after ${attempt} attempts: ${message}`);
+      item.reject(error);
+      return;
+    }
+
+    this.failInStore(item.id, message, false);
+    const delay = this.retryDelay * 2 ** (attempt - 1);
+    logger.warn(`[${item.id}] Attempt ${attempt}/${this.maxAttempts} failed (${message}), retrying in ${delay}ms`);
+    setTimeout(() => this.push(item), delay);
+  }
+
+  // An unreachable store must not stop the retry; the entry's lease still lets it be recovered
+  private failInStore(id: string, message: string, dead: boolean): void {
+    try {
+      this.store.fail(id, message, dead);
+    } catch (error) {
+      logger.error(`[${id}] Failed to record failure in ${this.store.name} queue store:`, error);
+    }
+  }
+
+  /**
+   * Register how durable tasks of a kind are run after recovery
+   */
+  public registerHandler(kind: string, handler: DurableHandler): void {
+    this.handlers.set(kind, handler);
+  }
+
+  // Queue a task read back from the store; nobody awaits it, so a final failure goes to its handler
+  private resume(entry: QueueEntry, handler: DurableHandler): void {
+    const { id, kind, payload, tenant } = entry;
+    handler.queued?.(payload);
+    this.push({
+      id,
+      task: signal => handler.run(payload, signal),
+      resolve: () => undefined,
+      reject: error => handler.deadLettered?.(payload, error instanceof Error ? error : new Error(String(error))),
+      requestTimeout: 0,
+      durable: { kind, payload, tenant },
+      lane: this.getLane(handler.lane?.(payload)).name
+    });
+  }
+
+  /**
+   * Take over durable tasks whose lease ran out, because the instance holding them stopped
+   * or crashed, and queue them again. Returns how many were taken over.
+   */
+  public recover(): number {
+    const entries = this.store.claimExpired(this.owner, this.leaseDuration, Date.now());
+    let resumed = 0;
+
+    entries.forEach(entry => {
+      if (this.held.has(entry.id)) return;
+
+      const handler = this.handlers.get(entry.kind);
+      if (!handler) {
+        logger.error(`[${entry.id}] No handler for durable task kind "${entry.kind}", moving it to dead letters`);
+        this.store.fail(entry.id, `No handler for task kind "${entry.kind}"`, true);
+        return;
+      }
+
+      // A task that was running when its worker died has used that attempt
+      if (entry.status === 'running' && entry.attempts >= this.maxAttempts) {
+        const message = `Worker stopped during attempt ${entry.attempts}/${this.maxAttempts}`;
+        this.store.fail(entry.id, message, true);
+        logger.error(`[${entry.id}] ${message}, moved to dead letters`);
+        handler.deadLettered?.(entry.payload, new Error(message));
+        return;
+      }
+
+      this.resume(entry, handler);
+      resumed++;
+    });
+
+    if (resumed > 0) {
+      logger.info(`Recovered ${resumed} durable tasks from the ${this.store.name} queue store`);
+    }
+    return resumed;
+  }
+
+  /**
+   * Recover tasks left by earlier instances, then keep this instance's leases alive and
+   * keep checking for tasks abandoned by others
+   */
+  public start(): void {
+    if (this.leaseTimer) return;
+
+    this.recover();
+    let renewals = 0;
+    this.leaseTimer = setInterval(() => {
+      try {
+        this.store.renew(this.owner, this.leaseDuration);
+        // Look for abandoned tasks once per lease duration
+        if (++renewals % 3 === 0) {
+          this.recover();
+        }
+      } catch (error) {
+        logger.error('Failed to renew queue leases:', error);
+      }
+    }, Math.max(Math.floor(this.leaseDuration / 3), 1000));
+    this.leaseTimer.unref();
+  }
+
+  /**
+   * Give up this instance's leases so another instance takes the durable tasks over
+   * straight away; called on shutdown
+   */
+  public release(): void {
+    clearInterval(this.leaseTimer);
+    this.leaseTimer = undefined;
+    this.store.release(this.owner);
+    logger.info(`Released ${this.held.size} durable tasks`);
+  }
+
+  /**
+   * Durable tasks that ran out of attempts
+   */
+  public listDeadLetters(): QueueEntry[] {
+    return this.store.listDead();
+  }
+
+  public getDeadLetter(id: string): QueueEntry | null {
+    return this.store.getDead(id);
+  }
+
+  public removeDeadLetter(id: string): boolean {
+    return this.store.removeDead(id);
+  }
+
+  /**
+   * Queue a dead-lettered task again with fresh attempts; returns null when there is no such task
+   */
+  public retryDeadLetter(id: string): QueueEntry | null {
+    const dead = this.store.getDead(id);
+    if (!dead) return null;
+
+    const handler = this.handlers.get(dead.kind);
+    if (!handler) {
+      throw new Error(`No handler for task kind "${dead.kind}"`);
+    }
+
+    const entry = this.store.retryDead(id, this.owner, this.leaseDuration);
+    if (entry) {
+      this.resume(entry, handler);
+    }
+    return entry;
+  }
+
+  private recordDuration(duration: number): void {
+    this.averageDuration = this.averageDuration === 0 ? duration : this.averageDuration * 0.8 + duration * 0.2;
+  }
+
+  /**
+   * Seconds until the requests now pending are likely to have started
+   */
+  public estimateWait(): number {
+    const batches = Math.ceil((this.pendingCount() + 1) / this.maxConcurrent);
+    return Math.max(Math.ceil(batches * this.averageDuration / 1000), 1);
+  }
+  
   /**
    * Get current queue status
    */
-  public getStatus(): { active: number, pending: number } {
+  public getStatus(): QueueStatus {
+    const lanes: Record<string, LaneStatus> = {};
+    this.lanes.forEach(lane => {
+      lanes[lane.name] = {
+        active: lane.active,
+        pending: lane.items.length,
+        weight: lane.weight,
+        maxQueued: lane.maxQueued ?? null
+      };
+    });
+
     return {
       active: this.activeRequests,
-      pending: this.queue.length
+      pending: this.pendingCount(),
+      completed: this.completedRequests,
+      averageDuration: Math.round(this.averageDuration),
+      durable: this.held.size,
+      store: this.store.name,
+      lanes
     };
   }
 }
 
+// Per-tier lane settings, e.g. QUEUE_LANE_WEIGHTS="admin:8,pro_user:3,free_user:1"
+function parseLaneSetting(value: string | undefined, defaults: Record<Tier, number>): Record<Tier, number> {
+  const settings = { ...defaults };
+  (value || '').split(',').forEach(pair => {
+    const [tier, amount] = pair.split(':').map(part => part.trim());
+    const parsed = parseInt(amount, 10);
+    if (tier in settings && Number.isFinite(parsed) && parsed > 0) {
+      settings[tier as Tier] = parsed;
+    }
+  });
+  return settings;
+}
+
+const LANE_WEIGHTS = parseLaneSetting(process.env.QUEUE_LANE_WEIGHTS, { admin: 8, pro_user: 3, free_user: 1 });
+const LANE_MAX_QUEUED = parseLaneSetting(process.env.QUEUE_LANE_MAX_QUEUED, { admin: 500, pro_user: 300, free_user: 200 });
+// Highest priority first; callers without a key use the free lane
+const LANE_ORDER: Tier[] = ['admin', 'pro_user', 'free_user'];
+
 // Export a singleton instance
 export const requestQueue = new RequestQueue(
   parseInt(process.env.MAX_CONCURRENT_REQUESTS || '50', 10),
   parseInt(process.env.REQUEST_TIMEOUT || '60000', 10),
-  parseInt(process.env.QUEUE_TIMEOUT || '30000', 10)
-); 
\ No newline at end of file
+  parseInt(process.env.QUEUE_TIMEOUT || '30000', 10),
+  parseInt(process.env.MAX_QUEUED_REQUESTS || '500', 10),
+  {
+    store: createQueueStore(),
+    maxAttempts: parseInt(process.env.QUEUE_MAX_ATTEMPTS || '3', 10),
+    leaseDuration: parseInt(process.env.QUEUE_LEASE_DURATION || '60000', 10),
+    retryDelay: parseInt(process.env.QUEUE_RETRY_DELAY || '5000', 10)
+  },
+  LANE_ORDER.map(tier => ({ name: tier, weight: LANE_WEIGHTS[tier], maxQueued: LANE_MAX_QUEUED[tier] }))
+);
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import winston from 'winston';
+import { Tier } from './apiKeyStore';
+import { findMatchingPattern } from './domainPattern';
+import { writeFileAtomic } from './atomicWrite';
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'tenant-store' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+// Keys without a tenant belong to the default tenant, whose admins operate the whole deployment
+export const DEFAULT_TENANT = 'default';
+
+/**
+ * Per-tenant settings
+ */
+export interface TenantConfig {
+  id: string;
+  name: string;
+  // Requests per minute by tier; tiers left out use the global defaults
+  rateLimits: Partial<Record<Tier, number>>;
+  premiumDomains: string[];
+  createdAt: string;
+}
+
+// Store tenants in a JSON file next to the blacklist
+const TENANTS_FILE = path.join(__dirname, '../../data/tenants.json');
+
+// Ensure data directory exists
+if (!fs.existsSync(path.dirname(TENANTS_FILE))) {
+  fs.mkdirSync(path.dirname(TENANTS_FILE), { recursive: true });
+}
+
+const tenants = new Map<string, TenantConfig>();
+
+// Load tenants from disk
+try {
+  const data = fs.readFileSync(TENANTS_FILE, 'utf8');
+  (JSON.parse(data) as TenantConfig[]).forEach(tenant => tenants.set(tenant.id, tenant));
+} catch (error) {
+  logger.info('No tenant registry found, starting with the default tenant only');
+}
+
+if (!tenants.has(DEFAULT_TENANT)) {
+  tenants.set(DEFAULT_TENANT, {
+    id: DEFAULT_TENANT,
+    name: 'Default',
+    rateLimits: {},
+    premiumDomains: [],
+    createdAt: new Date().toISOString()
+  });
+}
+
+// Save tenants to file
+const saveTenants = () => {
+  writeFileAtomic(TENANTS_FILE, JSON.stringify(Array.from(tenants.values()), null, 2));
+};
+
+/**
+ * Check whether a tenant id is well-formed
+ */
+export function isValidTenantId(id: unknown): id is string {
+  return typeof id === 'string' && /^[a-z0-9][a-z0-9_-]{0,62}$/.test(id);
+}
+
+export function getTenant(id: string): TenantConfig | null {
+  return tenants.get(id) || null;
+}
+
+export function listTenants(): TenantConfig[] {
+  return Array.from(tenants.values());
+}
+
+/**
+ * Create a tenant or update its settings
+ */
+export function upsertTenant(
+  id: string,
+  changes: Partial<Pick<TenantConfig, 'name' | 'rateLimits' | 'premiumDomains'>>
+): TenantConfig {
+  const existing = tenants.get(id);
+  const tenant: TenantConfig = {
+    id,
+    name: changes.name ?? existing?.name ?? id,
+    rateLimits: changes.rateLimits ?? existing?.rateLimits ?? {},
+    premiumDomains: (changes.premiumDomains ?? existing?.premiumDomains ?? []).map(domain => domain.toLowerCase()),
+    createdAt: existing?.createdAt ?? new Date().toISOString()
+  };
+
+  tenants.set(id, tenant);
+  saveTenants();
+  logger.info(`${existing ? 'Updated' : 'Created'} tenant ${id}`);
+  return tenant;
+}
+
+/**
+ * Delete a tenant; the default tenant cannot be deleted
+ */
+export function deleteTenant(id: string): boolean {
+  if (id === DEFAULT_TENANT || !tenants.delete(id)) {
+    return false;
+  }
+  saveTenants();
+  logger.info(`Deleted tenant ${id}`);
+  return true;
+}
+
+/**
+ * Per-minute limit configured for a tier in a tenant, if any
+ */
+export function getTenantRateLimit(tenantId: string, tier: Tier): number | undefined {
+  return tenants.get(tenantId)?.rateLimits[tier];
+}
+
+/**
+ * Check a hostname against a tenant's premium domain patterns
+ */
+export function isTenantPremiumDomain(tenantId: string, hostname: string): boolean {
+  return findMatchingPattern(hostname, tenants.get(tenantId)?.premiumDomains || []) !== null;
+}
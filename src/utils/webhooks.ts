@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import axios from 'axios';
+import validator from 'validator';
+import winston from 'winston';
+import { ApiError, ErrorCode, buildErrorResponse } from './errorHandler';
+import { Job } from './jobs';
+
+const logger = winston.createLogger({
+  level: 'debug',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'webhooks' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+// Payloads are signed with this secret; callbacks are refused until it is set
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10);
+// Delay before the first retry; each later retry waits twice as long
+const WEBHOOK_RETRY_DELAY = parseInt(process.env.WEBHOOK_RETRY_DELAY || '1000', 10);
+const WEBHOOK_TIMEOUT = parseInt(process.env.WEBHOOK_TIMEOUT || '10000', 10);
+// Callbacks to loopback, link-local and private addresses are refused unless this is set
+const WEBHOOK_ALLOW_PRIVATE = process.env.WEBHOOK_ALLOW_PRIVATE === 'true';
+
+// Addresses a callback must not reach: this host, its link and private networks
+const PRIVATE_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'], ['10.0.0.0', 8, 'ipv4'], ['100.64.0.0', 10, 'ipv4'], ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'], ['172.16.0.0', 12, 'ipv4'], ['192.168.0.0', 16, 'ipv4'],
+  ['::', 128, 'ipv6'], ['::1', 128, 'ipv6'], ['fc00::', 7, 'ipv6'], ['fe80::', 10, 'ipv6']
+];
+const PRIVATE_ADDRESSES = new net.BlockList();
+PRIVATE_RANGES.forEach(([address, prefix, family]) => PRIVATE_ADDRESSES.addSubnet(address, prefix, family));
+
+export const SIGNATURE_HEADER = 'X-Scrapebase-Signature';
+
+/**
+ * One POST to the callback URL
+ */
+export interface WebhookAttempt {
+  attempt: number;
+  at: string;
+  durationMs: number;
+  // Missing when no response was received
+  statusCode?: number;
+  error?: string;
+}
+
+/**
+ * Delivery of a job's outcome to its callback URL
+ */
+export interface WebhookDelivery {
+  id: string;
+  url: string;
+  event: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookAttempt[];
+  nextAttemptAt?: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Whether an IP address is loopback, link-local, private or unspecified
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as IPv4
+  const ip = address.replace(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i, '$1');
+  const version = net.isIP(ip);
+  return version !== 0 && PRIVATE_ADDRESSES.check(ip, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Resolve callback hosts ourselves so a name pointing at a private address is refused at connect time
+const lookupPublicAddress = async (hostname: string): Promise<{ address: string, family: number }> => {
+  const { address, family } = await dns.promises.lookup(hostname);
+  if (!WEBHOOK_ALLOW_PRIVATE && isPrivateAddress(address)) {
+    throw new Error(`${hostname} resolves to the private address ${address}`);
+  }
+  return { address, family };
+};
+
+/**
+ * Read and validate `callbackUrl` from a request body; throws an ApiError when it is unusable
+ */
+export function getCallbackUrl(body: any): string | undefined {
+  const callbackUrl = body?.callbackUrl;
+  if (callbackUrl === undefined || callbackUrl === null || callbackUrl === '') {
+    return undefined;
+  }
+
+  if (typeof callbackUrl !== 'string' || !validator.isURL(callbackUrl, {
+    protocols: ['http', 'https'],
+    require_protocol: true,
+    require_tld: false
+  })) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, 'callbackUrl must be an http or https URL');
+  }
+  // IPv6 hostnames from URL parsing keep their brackets
+  const hostname = new URL(callbackUrl).hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  if (!WEBHOOK_ALLOW_PRIVATE && (hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname))) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, 'callbackUrl must not point at a loopback, link-local or private address');
+  }
+  if (!WEBHOOK_SECRET) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Webhooks are not configured on this server (WEBHOOK_SECRET is not set)');
+  }
+  return callbackUrl;
+}
+
+/**
+ * Signature header value for a payload: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ */
+export function signPayload(body: string, timestamp: number, secret: string = WEBHOOK_SECRET): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// The result for completed jobs, the standard error body otherwise
+function buildPayload(job: Job): any {
+  if (job.status === 'completed') {
+    return job.result;
+  }
+  const error = job.error || { code: ErrorCode.SERVER_ERROR, message: 'Job did not complete' };
+  return buildErrorResponse(error.code, error.message, job.requestId, error.details);
+}
+
+/**
+ * POST a finished job's outcome to its callback URL, retrying with exponential backoff.
+ * Every attempt is recorded on `job.webhook`.
+ */
+export async function deliverJobWebhook(job: Job): Promise<void> {
+  if (!job.callbackUrl) return;
+
+  const delivery: WebhookDelivery = {
+    id: crypto.randomUUID(),
+    url: job.callbackUrl,
+    event: `job.${job.status}`,
+    status: 'pending',
+    attempts: []
+  };
+  job.webhook = delivery;
+  const body = JSON.stringify(buildPayload(job));
+
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    const startedAt = Date.now();
+    const record: WebhookAttempt = { attempt, at: new Date(startedAt).toISOString(), durationMs: 0 };
+
+    try {
+      // Signed per attempt so receivers can reject stale timestamps
+      const response = await axios.post(delivery.url, body, {
+        timeout: WEBHOOK_TIMEOUT,
+        maxRedirects: 0,
+        lookup: lookupPublicAddress,
+        validateStatus: () => true,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Scrapebase-Webhooks/1.0',
+          'X-Scrapebase-Event': delivery.event,
+          'X-Scrapebase-Job-Id': job.id,
+          'X-Scrapebase-Delivery': delivery.id,
+          [SIGNATURE_HEADER]: signPayload(body, Math.floor(startedAt / 1000))
+        }
+      });
+      record.statusCode = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        record.error = `Receiver answered ${response.status}`;
+      }
+    } catch (error: any) {
+      record.error = error.message || String(error);
+    }
+
+    record.durationMs = Date.now() - startedAt;
+    delivery.attempts.push(record);
+
+    if (!record.error) {
+      delivery.status = 'delivered';
+      delivery.nextAttemptAt = undefined;
+      logger.info(`[${job.requestId}] Delivered ${delivery.event} for job ${job.id} on attempt ${attempt}`);
+      return;
+    }
+
+    if (attempt < WEBHOOK_MAX_ATTEMPTS) {
+      const delay = WEBHOOK_RETRY_DELAY * 2 ** (attempt - 1);
+      delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      logger.warn(`[${job.requestId}] Webhook attempt ${attempt} for job ${job.id} failed (${record.error}), retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+
+  delivery.status = 'failed';
+  delivery.nextAttemptAt = undefined;
+  logger.error(`[${job.requestId}] Giving up on webhook for job ${job.id} after ${WEBHOOK_MAX_ATTEMPTS} attempts`);
+}
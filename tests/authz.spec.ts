@@ -0,0 +1,333 @@
+import { test, expect } from 'playwright/test';
+import type { NextFunction, Request, Response } from 'express';
+import { evaluateCondition, evaluatePolicy, findThresholds, parsePolicy } from '../src/utils/hclPolicy';
+import {
+  AuthzDecision,
+  AuthzResource,
+  DecisionEngine,
+  FallbackDecisionEngine,
+  LocalDecisionEngine,
+  PermitUser,
+  parseFailureModes
+} from '../src/utils/decisionEngine';
+import { createApiKey, Tier } from '../src/utils/apiKeyStore';
+import { permitAuth, permitScrapeSite } from '../src/middleware/permitAuth';
+
+const POLICY = `
+// Comments and both kinds of blocks are accepted
+resource "website" {
+  actions = ["scrape_basic", "scrape_site"]
+}
+
+policy "reader" {
+  resource = "website"
+  role = "reader"
+  actions = ["scrape_basic"]
+  effect = "allow"
+  conditions = [
+    condition "rate_limit" {
+      match = "user.requests_per_hour <= 50"
+    }
+  ]
+}
+
+policy "no_blocked" {
+  resource = "website"
+  roles = ["reader"]
+  actions = ["scrape_basic"]
+  effect = "deny"
+  conditions = [
+    condition "blocked" {
+      match = "resource.is_blocked"
+    }
+  ]
+}
+`;
+
+const user = (tier: string, requestsPerHour?: number): PermitUser => ({
+  key: `${tier}_user`,
+  email: `${tier}@example.com`,
+  tenant: 'default',
+  attributes: { tier, roles: [tier], requests_per_hour: requestsPerHour }
+});
+
+const website = (attributes: Record<string, any>): AuthzResource => ({ type: 'website', key: 'example.com', attributes });
+
+test.describe('hclPolicy', () => {
+  test('parses policies with their roles, actions and conditions', () => {
+    const policySet = parsePolicy(POLICY);
+
+    expect(policySet.policies.map(policy => policy.name)).toEqual(['reader', 'no_blocked']);
+    expect(policySet.policies[0]).toMatchObject({
+      resource: 'website',
+      roles: ['reader'],
+      actions: ['scrape_basic'],
+      effect: 'allow',
+      conditions: [{ name: 'rate_limit', match: 'user.requests_per_hour <= 50' }]
+    });
+    expect(findThresholds(policySet, 'user.requests_per_hour')).toEqual([50]);
+  });
+
+  test('evaluates comparisons, negation and the boolean operators', () => {
+    const scope = { user: { requests: 10 }, resource: { premium: false, depth: 2 } };
+
+    expect(evaluateCondition('user.requests <= 10', scope)).toBe(true);
+    expect(evaluateCondition('user.requests < 10', scope)).toBe(false);
+    expect(evaluateCondition('!resource.premium && resource.depth <= 3', scope)).toBe(true);
+    expect(evaluateCondition('resource.premium || (resource.depth > 1 && user.requests != 0)', scope)).toBe(true);
+    expect(evaluateCondition('!(resource.depth == 2)', scope)).toBe(false);
+  });
+
+  test('fails closed on missing attributes, through negation and the boolean operators', () => {
+    const scope = { user: { requests: 10 }, resource: {} };
+
+    expect(evaluateCondition('user.missing <= 50', scope)).toBe(false);
+    expect(evaluateCondition('!(user.missing <= 50)', scope)).toBe(false);
+    expect(evaluateCondition('!resource.premium', scope)).toBe(false);
+    expect(evaluateCondition('user.missing <= 50 && user.requests <= 50', scope)).toBe(false);
+    // A known operand can still settle the result
+    expect(evaluateCondition('user.missing <= 50 || user.requests <= 50', scope)).toBe(true);
+    expect(evaluateCondition('user.missing <= 50 && user.requests > 50', scope, true)).toBe(false);
+    // Deny conditions ask for the unknown case to count as a match
+    expect(evaluateCondition('resource.is_blocked', scope, true)).toBe(true);
+  });
+
+  test('rejects malformed expressions', () => {
+    const scope = { user: {}, resource: {} };
+
+    expect(() => evaluateCondition('(user.a <= 1', scope)).toThrow(/Missing '\)'/);
+    expect(() => evaluateCondition('user.a <= 1 )', scope)).toThrow(/trailing input/);
+    expect(() => evaluateCondition('user.a $ 1', scope)).toThrow(/Invalid condition expression/);
+  });
+
+  test('allows when an allow policy matches and no deny policy does', () => {
+    const policySet = parsePolicy(POLICY);
+    const input = (attributes: Record<string, any>, requestsPerHour?: number) => ({
+      user: { key: 'u', roles: ['reader'], attributes: requestsPerHour === undefined ? {} : { requests_per_hour: requestsPerHour } },
+      action: 'scrape_basic',
+      resource: website(attributes)
+    });
+
+    expect(evaluatePolicy(policySet, input({ is_blocked: false }, 10))).toMatchObject({ allowed: true, policy: 'reader' });
+    expect(evaluatePolicy(policySet, input({ is_blocked: false }, 51))).toMatchObject({ allowed: false, reason: 'no matching allow policy' });
+    expect(evaluatePolicy(policySet, input({ is_blocked: true }, 10))).toMatchObject({ allowed: false, policy: 'no_blocked' });
+    // Neither the rate limit nor the block status was sent: the allow fails and the deny matches
+    expect(evaluatePolicy(policySet, input({}))).toMatchObject({ allowed: false, policy: 'no_blocked' });
+  });
+
+  test('records a trace of applicable policies and their conditions', () => {
+    const evaluation = evaluatePolicy(parsePolicy(POLICY), {
+      user: { key: 'u', roles: ['writer'], attributes: {} },
+      action: 'scrape_basic',
+      resource: website({ is_blocked: false })
+    });
+
+    expect(evaluation.allowed).toBe(false);
+    expect(evaluation.trace).toEqual([
+      { policy: 'reader', effect: 'allow', applicable: false, matched: false, conditions: [] },
+      { policy: 'no_blocked', effect: 'deny', applicable: false, matched: false, conditions: [] }
+    ]);
+  });
+});
+
+test.describe('LocalDecisionEngine', () => {
+  const engine = new LocalDecisionEngine();
+
+  test('lets free users scrape non-premium sites within their hourly limit', async () => {
+    const resource = website({ is_premium: false, is_blacklisted: false });
+
+    expect(await engine.check(user('free_user', 10), 'scrape_basic', resource)).toMatchObject({
+      allowed: true,
+      engine: 'local',
+      policy: 'free_user_basic_scrape'
+    });
+    expect((await engine.check(user('free_user', 51), 'scrape_basic', resource)).allowed).toBe(false);
+    expect((await engine.check(user('free_user', 10), 'scrape_basic', website({ is_premium: true, is_blacklisted: false }))).allowed).toBe(false);
+    expect((await engine.check(user('free_user', 10), 'scrape_advanced', resource)).allowed).toBe(false);
+  });
+
+  test('denies blacklisted domains to every role', async () => {
+    const resource = website({ is_premium: false, is_blacklisted: true });
+
+    for (const tier of ['admin', 'pro_user', 'free_user']) {
+      expect(await engine.check(user(tier, 0), 'scrape_basic', resource)).toMatchObject({
+        allowed: false,
+        policy: 'deny_blacklisted_domains'
+      });
+    }
+  });
+
+  test('limits crawl size by tier', async () => {
+    const crawl = (subpages: number, depth: number) =>
+      website({ is_premium: false, is_blacklisted: false, subpages_count: subpages, max_depth: depth });
+
+    expect((await engine.check(user('free_user'), 'scrape_site', crawl(3, 1))).allowed).toBe(true);
+    expect((await engine.check(user('free_user'), 'scrape_site', crawl(4, 1))).allowed).toBe(false);
+    expect((await engine.check(user('pro_user'), 'scrape_site', crawl(20, 3))).allowed).toBe(true);
+    expect((await engine.check(user('pro_user'), 'scrape_site', crawl(20, 4))).allowed).toBe(false);
+    expect((await engine.check(user('admin'), 'scrape_site', crawl(100, 10))).allowed).toBe(true);
+  });
+
+  test('grants features by tier in bulk, in the order asked', async () => {
+    const feature = (name: string) => ({ action: `use_${name}`, resource: { type: 'feature', key: name, attributes: {} } });
+    const checks = ['raw_html', 'subpage_crawl', 'summarization'].map(feature);
+
+    const free = await engine.bulkCheck(user('free_user'), checks);
+    const pro = await engine.bulkCheck(user('pro_user'), checks);
+
+    expect(free.map(decision => decision.allowed)).toEqual([false, true, false]);
+    expect(pro.map(decision => decision.allowed)).toEqual([true, true, true]);
+  });
+
+  test('keeps detailed metrics to admins', async () => {
+    const metrics = (detailed: boolean): AuthzResource => ({ type: 'metrics', key: 'server', attributes: { detailed } });
+
+    expect((await engine.check(user('pro_user'), 'view_metrics', metrics(false))).allowed).toBe(true);
+    expect((await engine.check(user('pro_user'), 'view_metrics', metrics(true))).allowed).toBe(false);
+    expect((await engine.check(user('admin'), 'view_metrics', metrics(true))).allowed).toBe(true);
+    expect((await engine.check(user('free_user'), 'view_metrics', metrics(false))).allowed).toBe(false);
+  });
+});
+
+test.describe('FallbackDecisionEngine', () => {
+  // A primary engine that is always unreachable
+  const unreachable: DecisionEngine = {
+    name: 'permit',
+    syncUser: async () => { throw new Error('ECONNREFUSED'); },
+    syncTenant: async () => { throw new Error('ECONNREFUSED'); },
+    check: async () => { throw new Error('ECONNREFUSED'); },
+    bulkCheck: async () => { throw new Error('ECONNREFUSED'); },
+    syncResourceInstance: async () => { throw new Error('ECONNREFUSED'); },
+    deleteResourceInstance: async () => { throw new Error('ECONNREFUSED'); }
+  };
+  const premium = website({ is_premium: true, is_blacklisted: false });
+
+  test('parses per-action failure modes and skips invalid entries', () => {
+    expect(parseFailureModes('scrape_basic:open, scrape_site:closed,bogus,view_metrics:sideways')).toEqual({
+      scrape_basic: 'open',
+      scrape_site: 'closed'
+    });
+    expect(parseFailureModes(undefined)).toEqual({});
+  });
+
+  test('applies the failure mode configured for each action', async () => {
+    const engine = new FallbackDecisionEngine(
+      unreachable,
+      new LocalDecisionEngine(),
+      parseFailureModes('scrape_basic:open,scrape_site:closed'),
+      'local'
+    );
+
+    expect(engine.name).toBe('permit+local');
+    expect(await engine.check(user('free_user'), 'scrape_basic', premium, 'default')).toMatchObject({
+      allowed: true,
+      engine: 'fail-open',
+      degraded: true
+    });
+    expect(await engine.check(user('admin'), 'scrape_site', premium, 'default')).toMatchObject({
+      allowed: false,
+      engine: 'fail-closed',
+      degraded: true,
+      unavailable: true
+    });
+    // Actions without their own mode use the default, here the local policy
+    expect(await engine.check(user('free_user'), 'scrape_advanced', premium, 'default')).toMatchObject({
+      allowed: false,
+      engine: 'local',
+      degraded: true
+    });
+    expect(await engine.check(user('admin'), 'scrape_advanced', premium, 'default')).toMatchObject({
+      allowed: true,
+      engine: 'local',
+      degraded: true
+    });
+  });
+
+  test('keeps each action\'s failure mode within a bulk check', async () => {
+    const engine = new FallbackDecisionEngine(unreachable, new LocalDecisionEngine(), { use_raw_html: 'open' }, 'closed');
+    const feature = (name: string) => ({ action: `use_${name}`, resource: { type: 'feature', key: name, attributes: {} } });
+
+    const decisions: AuthzDecision[] = await engine.bulkCheck(user('free_user'), [feature('raw_html'), feature('summarization')], 'default');
+
+    expect(decisions.map(decision => [decision.engine, decision.allowed])).toEqual([['fail-open', true], ['fail-closed', false]]);
+  });
+
+  test('does not let a failed user sync block the check', async () => {
+    const engine = new FallbackDecisionEngine(unreachable, new LocalDecisionEngine(), {}, 'local');
+    await expect(engine.syncUser(user('free_user'))).resolves.toBeUndefined();
+  });
+});
+
+test.describe('permitAuth with AUTHZ_ENGINE=local', () => {
+  interface Outcome {
+    status?: number;
+    body?: any;
+    next: boolean;
+  }
+
+  const keys = new Map<Tier, string>();
+  const keyFor = (tier: Tier): string => {
+    if (!keys.has(tier)) {
+      keys.set(tier, createApiKey({ tier, ownerEmail: `${tier}@example.com` }).apiKey);
+    }
+    return keys.get(tier)!;
+  };
+
+  const run = async (
+    middleware: (req: Request, res: Response, next: NextFunction) => Promise<unknown>,
+    body: any,
+    apiKey?: string
+  ): Promise<Outcome> => {
+    const outcome: Outcome = { next: false };
+    const req = { headers: apiKey ? { 'x-api-key': apiKey } : {}, body, ip: '127.0.0.1' } as unknown as Request;
+    const res = {
+      setHeader: () => res,
+      status(code: number) {
+        outcome.status = code;
+        return res;
+      },
+      json(payload: any) {
+        outcome.body = payload;
+        return res;
+      }
+    } as unknown as Response;
+
+    await middleware(req, res, () => { outcome.next = true; });
+    return outcome;
+  };
+
+  test('answers 401 without a valid key', async () => {
+    expect(await run(permitAuth, { url: 'https://example.org' })).toMatchObject({ status: 401, next: false });
+    expect(await run(permitAuth, { url: 'https://example.org' }, 'sb_00000000_nope')).toMatchObject({ status: 401, next: false });
+  });
+
+  test('allows a basic scrape, with or without a scheme', async () => {
+    expect(await run(permitAuth, { url: 'https://example.org/page' }, keyFor('free_user'))).toEqual({ next: true });
+    expect(await run(permitAuth, { url: 'example.org' }, keyFor('free_user'))).toEqual({ next: true });
+  });
+
+  test('answers 400 INVALID_URL for a URL that cannot be parsed', async () => {
+    const outcome = await run(permitAuth, { url: 'http://exa mple.org' }, keyFor('free_user'));
+
+    expect(outcome.status).toBe(400);
+    expect(outcome.body.error.code).toBe('INVALID_URL');
+    expect(outcome.next).toBe(false);
+  });
+
+  test('denies what the tier\'s policies do not allow', async () => {
+    const advanced = await run(permitAuth, { url: 'https://example.org', advanced: true }, keyFor('free_user'));
+    expect(advanced).toMatchObject({ status: 403, next: false });
+    expect(advanced.body.permit_decision).toEqual({ allowed: false, reason: 'insufficient_permissions' });
+
+    // premium-site1.com is in data/premium_domains.json
+    expect(await run(permitAuth, { url: 'https://premium-site1.com' }, keyFor('free_user'))).toMatchObject({ status: 403 });
+    expect(await run(permitAuth, { url: 'https://premium-site1.com', advanced: true }, keyFor('pro_user'))).toEqual({ next: true });
+  });
+
+  test('checks the requested crawl size', async () => {
+    expect(await run(permitScrapeSite, { url: 'example.org', subpagesCount: 3, maxDepth: 1 }, keyFor('free_user'))).toEqual({ next: true });
+    expect(await run(permitScrapeSite, { url: 'example.org', subpagesCount: 10, maxDepth: 1 }, keyFor('free_user'))).toMatchObject({ status: 403 });
+    expect(await run(permitScrapeSite, { url: 'example.org', subpagesCount: 10, maxDepth: 2 }, keyFor('pro_user'))).toEqual({ next: true });
+    expect(await run(permitScrapeSite, { subpagesCount: 1 }, keyFor('pro_user'))).toMatchObject({ status: 400 });
+  });
+});
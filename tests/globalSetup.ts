@@ -0,0 +1,32 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Runs once before the workers start; the environment set here is inherited by every worker,
+ * so modules read it when the specs import them
+ */
+export default function globalSetup() {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scrapebase-tests-'));
+
+  Object.assign(process.env, {
+    API_KEYS_FILE: path.join(dataDir, 'api_keys.json'),
+    AUDIT_LOG_FILE: path.join(dataDir, 'audit.jsonl'),
+    BLACKLIST_FILE: path.join(dataDir, 'blacklist.json'),
+    BLACKLIST_DB: path.join(dataDir, 'blacklist.db'),
+    BLACKLIST_HISTORY_FILE: path.join(dataDir, 'blacklist_history.jsonl'),
+    RATE_LIMIT_DB: path.join(dataDir, 'rate_limits.db'),
+    QUEUE_DB: path.join(dataDir, 'queue.db'),
+    AUTHZ_ENGINE: 'local',
+    PERMIT_API_KEY: '',
+    ALLOWLIST_ONLY: 'false',
+    // Webhooks go to a receiver on 127.0.0.1 and retry quickly
+    WEBHOOK_SECRET: 'test-webhook-secret',
+    WEBHOOK_ALLOW_PRIVATE: 'true',
+    WEBHOOK_MAX_ATTEMPTS: '3',
+    WEBHOOK_RETRY_DELAY: '100',
+    WEBHOOK_TIMEOUT: '2000'
+  });
+
+  return () => fs.rmSync(dataDir, { recursive: true, force: true });
+}
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import { test, expect } from 'playwright/test';
+import { QuotaStore, createQuotaStore } from '../src/utils/quotaStore';
+import { QuotaLimits, consumeQuota, getQuotaUsage, refundQuota, setQuotaStore, windowStart } from '../src/utils/quota';
+import { RedisStandIn } from './support/redisStandIn';
+
+const limits = (overrides: Partial<QuotaLimits>): QuotaLimits => ({ minute: null, hour: null, day: null, month: null, ...overrides });
+
+// Ten minutes into the next hour: in the future, so real expiries never cut a window short,
+// and far enough from the hour's edges that the next minute is still the same hour
+const base = () => windowStart('hour', Date.now()) + 3600000 + 10 * 60000;
+
+const subject = () => `test:${crypto.randomUUID()}`;
+
+// consumeQuota counts against one shared store, so the stores take turns in a single worker
+test.describe.configure({ mode: 'default' });
+
+// Every store runs the same checks; Redis is served by an in-process stand-in
+for (const type of ['memory', 'sqlite', 'redis']) {
+  test.describe(`${type} quota store`, () => {
+    let store: QuotaStore;
+    let redis: RedisStandIn | null = null;
+
+    test.beforeAll(async () => {
+      if (type === 'redis') {
+        redis = new RedisStandIn();
+        process.env.REDIS_URL = await redis.start();
+      }
+      store = createQuotaStore(type);
+      setQuotaStore(store);
+    });
+
+    test.afterAll(async () => {
+      await store.close();
+      await redis?.stop();
+    });
+
+    test('counts credits and requests in every window', async () => {
+      const key = subject();
+      const now = base();
+
+      expect(await store.take(key, limits({}), 3, true, now)).toMatchObject({ allowed: true });
+      const result = await store.take(key, limits({}), 2, false, now);
+
+      expect(result.allowed).toBe(true);
+      for (const window of ['minute', 'hour', 'day', 'month'] as const) {
+        expect(result.usage[window]).toMatchObject({ used: 5, requests: 1 });
+      }
+      expect((await store.usage(key, limits({ hour: 10 }), now)).hour).toMatchObject({ used: 5, limit: 10, remaining: 5 });
+    });
+
+    test('rejects a take that would exceed a window without counting it', async () => {
+      const key = subject();
+      const now = base();
+      const quota = limits({ minute: 5, day: 8 });
+
+      expect((await store.take(key, quota, 4, true, now)).allowed).toBe(true);
+      expect(await store.take(key, quota, 2, true, now)).toMatchObject({ allowed: false, exceeded: 'minute' });
+      // When several windows overflow the longest is reported, as it is the last to reset
+      expect(await store.take(key, limits({ minute: 4, day: 4 }), 1, true, now)).toMatchObject({ allowed: false, exceeded: 'day' });
+
+      const usage = await store.usage(key, quota, now);
+      expect(usage.minute).toMatchObject({ used: 4, requests: 1 });
+      expect(usage.day).toMatchObject({ used: 4, requests: 1 });
+    });
+
+    test('starts each window afresh once it has passed', async () => {
+      const key = subject();
+      const now = base();
+
+      await store.take(key, limits({}), 4, true, now);
+      const nextMinute = await store.usage(key, limits({}), now + 60000);
+      const nextHour = await store.usage(key, limits({}), now + 3600000);
+
+      expect(nextMinute.minute).toMatchObject({ used: 0, requests: 0 });
+      expect(nextMinute.hour).toMatchObject({ used: 4, requests: 1 });
+      expect(nextHour.hour).toMatchObject({ used: 0, requests: 0 });
+      expect(nextHour.month).toMatchObject({ used: 4, requests: 1 });
+    });
+
+    test('refunds only the windows that still contain the charge', async () => {
+      const key = subject();
+      const now = base();
+
+      await store.take(key, limits({}), 5, true, now);
+      await store.take(key, limits({}), 1, true, now + 60000);
+      await store.refund(key, 3, now, now + 60000);
+
+      const usage = await store.usage(key, limits({}), now + 60000);
+      // The new minute never held the refunded credits, so it keeps its own
+      expect(usage.minute.used).toBe(1);
+      expect(usage.hour.used).toBe(3);
+
+      // Refunds never go below zero
+      await store.refund(key, 100, now, now + 60000);
+      expect((await store.usage(key, limits({}), now + 60000)).hour.used).toBe(0);
+    });
+
+    test('lets consumeQuota through again once the exceeded window rolls over', async () => {
+      const key = subject();
+      const now = base();
+      const quota = limits({ minute: 2, hour: 3 });
+
+      expect((await consumeQuota(key, quota, 1, now)).allowed).toBe(true);
+      expect((await consumeQuota(key, quota, 1, now + 1000)).allowed).toBe(true);
+      expect(await consumeQuota(key, quota, 1, now + 2000)).toMatchObject({ allowed: false, exceeded: 'minute' });
+
+      // The next minute has room, and the hour still remembers both earlier requests
+      const rolled = await consumeQuota(key, quota, 1, now + 60000);
+      expect(rolled.allowed).toBe(true);
+      expect(rolled.usage.minute).toMatchObject({ used: 1, requests: 1 });
+      expect(rolled.usage.hour).toMatchObject({ used: 3, requests: 3 });
+
+      expect(await consumeQuota(key, quota, 1, now + 61000)).toMatchObject({ allowed: false, exceeded: 'hour' });
+      await refundQuota(key, 1, now + 60000, now + 61000);
+      expect((await getQuotaUsage(key, quota, now + 61000)).hour.used).toBe(2);
+    });
+
+    if (type === 'redis') {
+      test('expires keys a minute after their window ends', async () => {
+        const key = subject();
+        const now = base();
+
+        await store.take(key, limits({}), 1, true, now);
+
+        const minuteStart = windowStart('minute', now);
+        const ttl = redis!.ttl(`scrapebase:quota:${key}:minute:${minuteStart}:credits`);
+        const expected = (minuteStart + 60000 + 60000 - Date.now()) / 1000;
+        expect(Math.abs(ttl! - expected)).toBeLessThanOrEqual(1);
+      });
+    }
+  });
+}
@@ -0,0 +1,152 @@
+import net from 'net';
+
+// Strings are bulk strings; `{ status }` is a simple status reply such as +OK
+type Reply = string | number | null | Error | { status: string } | Reply[];
+
+const OK = { status: 'OK' };
+
+/**
+ * A minimal in-process server speaking the Redis protocol, with just the commands
+ * the Redis quota store and ioredis's connection handshake use. Keys honor EXPIREAT.
+ */
+export class RedisStandIn {
+  private readonly server = net.createServer(socket => this.serve(socket));
+  private readonly values = new Map<string, string>();
+  private readonly expiries = new Map<string, number>();
+  private readonly sockets = new Set<net.Socket>();
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as net.AddressInfo;
+    return `redis://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  /**
+   * Seconds until a key expires, or null when it has no expiry
+   */
+  ttl(key: string): number | null {
+    const expiry = this.expiries.get(key);
+    return expiry === undefined ? null : Math.round((expiry - Date.now()) / 1000);
+  }
+
+  private serve(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+
+    let buffer = Buffer.alloc(0);
+    // Commands queued between MULTI and EXEC
+    let transaction: string[][] | null = null;
+
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed: { args: string[], rest: Buffer } | null;
+
+      while ((parsed = parseCommand(buffer))) {
+        buffer = parsed.rest;
+        const [name, ...args] = parsed.args;
+        const command = name.toUpperCase();
+
+        if (command === 'MULTI') {
+          transaction = [];
+          socket.write(encode(OK));
+        } else if (command === 'EXEC') {
+          const replies = (transaction || []).map(queued => this.execute(queued[0].toUpperCase(), queued.slice(1)));
+          transaction = null;
+          socket.write(encode(replies));
+        } else if (transaction) {
+          transaction.push(parsed.args);
+          socket.write(encode({ status: 'QUEUED' }));
+        } else if (command === 'QUIT') {
+          socket.end(encode(OK));
+        } else {
+          socket.write(encode(this.execute(command, args)));
+        }
+      }
+    });
+  }
+
+  private execute(command: string, args: string[]): Reply {
+    switch (command) {
+      case 'PING':
+        return { status: 'PONG' };
+      case 'INFO':
+        return '# Server\r\nredis_version:7.0.0\r\nloading:0\r\n';
+      case 'SELECT':
+      case 'CLIENT':
+        return OK;
+      case 'GET':
+        return this.read(args[0]);
+      case 'MGET':
+        return args.map(key => this.read(key));
+      case 'INCRBY':
+        return this.add(args[0], Number(args[1]));
+      case 'DECRBY':
+        return this.add(args[0], -Number(args[1]));
+      case 'DECR':
+        return this.add(args[0], -1);
+      case 'EXPIREAT':
+        if (this.read(args[0]) === null) return 0;
+        this.expiries.set(args[0], Number(args[1]) * 1000);
+        return 1;
+      default:
+        return new Error(`ERR unknown command '${command}'`);
+    }
+  }
+
+  private read(key: string): string | null {
+    const expiry = this.expiries.get(key);
+    if (expiry !== undefined && expiry <= Date.now()) {
+      this.values.delete(key);
+      this.expiries.delete(key);
+    }
+    return this.values.get(key) ?? null;
+  }
+
+  private add(key: string, amount: number): number {
+    const value = Number(this.read(key) ?? 0) + amount;
+    this.values.set(key, String(value));
+    return value;
+  }
+}
+
+// Parse one `*<n>\r\n$<len>\r\n<arg>\r\n...` command, or null when it has not fully arrived
+function parseCommand(buffer: Buffer): { args: string[], rest: Buffer } | null {
+  let offset = 0;
+  const readLine = (): string | null => {
+    const end = buffer.indexOf('\r\n', offset);
+    if (end === -1) return null;
+    const line = buffer.toString('utf8', offset, end);
+    offset = end + 2;
+    return line;
+  };
+
+  const header = readLine();
+  if (header === null) return null;
+  const count = Number(header.slice(1));
+  const args: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const lengthLine = readLine();
+    if (lengthLine === null) return null;
+    const length = Number(lengthLine.slice(1));
+    if (buffer.length < offset + length + 2) return null;
+    args.push(buffer.toString('utf8', offset, offset + length));
+    offset += length + 2;
+  }
+
+  return { args, rest: buffer.subarray(offset) };
+}
+
+function encode(reply: Reply): string {
+  if (reply === null) return '$-1\r\n';
+  if (reply instanceof Error) return `-${reply.message}\r\n`;
+  if (typeof reply === 'number') return `:${reply}\r\n`;
+  if (typeof reply === 'string') return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encode).join('')}`;
+  return `+${reply.status}\r\n`;
+}
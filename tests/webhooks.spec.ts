@@ -0,0 +1,284 @@
+import crypto from 'crypto';
+import http from 'http';
+import net from 'net';
+import express from 'express';
+import { test, expect } from 'playwright/test';
+import { SIGNATURE_HEADER, deliverJobWebhook, getCallbackUrl, isPrivateAddress, signPayload } from '../src/utils/webhooks';
+import { Job, registerJobRunner, startJob, waitForJob } from '../src/utils/jobs';
+import { ApiKeyRecord, createApiKey } from '../src/utils/apiKeyStore';
+import jobsRouter from '../src/routes/jobs';
+
+// Matches WEBHOOK_SECRET in globalSetup.ts
+const SECRET = 'test-webhook-secret';
+const RETRY_DELAY = 100;
+const MAX_ATTEMPTS = 3;
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  at: number;
+}
+
+/**
+ * A local webhook receiver that answers with the given statuses in turn (the last one repeats)
+ */
+async function startReceiver(statuses: number[] = [200]): Promise<{ url: string, received: ReceivedRequest[], close: () => Promise<void> }> {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body, at: Date.now() });
+      res.statusCode = statuses[Math.min(received.length - 1, statuses.length - 1)];
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    received,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+// Check a signature header the way a receiver would
+function verifySignature(header: string, body: string, secret: string = SECRET): boolean {
+  const match = /^t=(\d+),v1=([a-f0-9]{64})$/.exec(header);
+  if (!match) return false;
+  const expected = crypto.createHmac('sha256', secret).update(`${match[1]}.${body}`).digest();
+  return crypto.timingSafeEqual(expected, Buffer.from(match[2], 'hex'));
+}
+
+const finishedJob = (callbackUrl: string, overrides: Partial<Job> = {}): Job => ({
+  id: crypto.randomUUID(),
+  type: 'scrape',
+  status: 'completed',
+  url: 'https://example.org',
+  requestId: 'req-test',
+  tenant: 'default',
+  keyId: null,
+  progress: { stage: 'done', completed: 1, total: 1 },
+  result: { success: true, data: { title: 'Example' } },
+  attempts: 1,
+  createdAt: new Date().toISOString(),
+  callbackUrl,
+  ...overrides
+});
+
+test.describe('webhook signatures', () => {
+  test('sign the timestamp and body with HMAC-SHA256', () => {
+    const body = JSON.stringify({ success: true });
+    const header = signPayload(body, 1700000000, SECRET);
+
+    expect(header).toMatch(/^t=1700000000,v1=[a-f0-9]{64}$/);
+    expect(header.split('v1=')[1]).toBe(crypto.createHmac('sha256', SECRET).update(`1700000000.${body}`).digest('hex'));
+  });
+
+  test('only verify for the same body, timestamp and secret', () => {
+    const body = JSON.stringify({ success: true });
+    const header = signPayload(body, 1700000000, SECRET);
+
+    expect(verifySignature(header, body)).toBe(true);
+    expect(verifySignature(header, JSON.stringify({ success: false }))).toBe(false);
+    expect(verifySignature(header.replace('t=1700000000', 't=1700000001'), body)).toBe(false);
+    expect(verifySignature(header, body, 'another-secret')).toBe(false);
+  });
+});
+
+test.describe('webhook delivery', () => {
+  test('POSTs the signed result of a completed job', async () => {
+    const receiver = await startReceiver();
+    const job = finishedJob(receiver.url);
+
+    try {
+      await deliverJobWebhook(job);
+    } finally {
+      await receiver.close();
+    }
+
+    expect(receiver.received).toHaveLength(1);
+    const [request] = receiver.received;
+    expect(JSON.parse(request.body)).toEqual(job.result);
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers['x-scrapebase-event']).toBe('job.completed');
+    expect(request.headers['x-scrapebase-job-id']).toBe(job.id);
+    expect(request.headers['x-scrapebase-delivery']).toBe(job.webhook!.id);
+    expect(verifySignature(request.headers[SIGNATURE_HEADER.toLowerCase()] as string, request.body)).toBe(true);
+
+    expect(job.webhook).toMatchObject({ url: receiver.url, event: 'job.completed', status: 'delivered' });
+    expect(job.webhook!.attempts).toEqual([expect.objectContaining({ attempt: 1, statusCode: 200 })]);
+    expect(job.webhook!.attempts[0].error).toBeUndefined();
+  });
+
+  test('POSTs the standard error body for a failed job', async () => {
+    const receiver = await startReceiver();
+    const job = finishedJob(receiver.url, {
+      status: 'failed',
+      result: undefined,
+      error: { code: 'TIMEOUT' as any, message: 'Request exceeded global timeout of 60000ms' }
+    });
+
+    try {
+      await deliverJobWebhook(job);
+    } finally {
+      await receiver.close();
+    }
+
+    expect(receiver.received[0].headers['x-scrapebase-event']).toBe('job.failed');
+    expect(JSON.parse(receiver.received[0].body)).toMatchObject({
+      success: false,
+      error: { code: 'TIMEOUT', message: 'Request exceeded global timeout of 60000ms' },
+      requestId: 'req-test'
+    });
+  });
+
+  test('retries non-2xx answers with exponential backoff', async () => {
+    const receiver = await startReceiver([500, 503, 204]);
+    const job = finishedJob(receiver.url);
+
+    try {
+      await deliverJobWebhook(job);
+    } finally {
+      await receiver.close();
+    }
+
+    expect(job.webhook!.status).toBe('delivered');
+    expect(job.webhook!.attempts.map(attempt => attempt.statusCode)).toEqual([500, 503, 204]);
+    expect(job.webhook!.attempts.map(attempt => attempt.error)).toEqual(['Receiver answered 500', 'Receiver answered 503', undefined]);
+    expect(job.webhook!.nextAttemptAt).toBeUndefined();
+
+    // Each retry waits twice as long as the one before
+    const [first, second, third] = receiver.received.map(request => request.at);
+    expect(second - first).toBeGreaterThanOrEqual(RETRY_DELAY);
+    expect(third - second).toBeGreaterThanOrEqual(RETRY_DELAY * 2);
+    // Every attempt carries its own valid signature over the same body
+    receiver.received.forEach(request => {
+      expect(verifySignature(request.headers[SIGNATURE_HEADER.toLowerCase()] as string, request.body)).toBe(true);
+      expect(request.headers['x-scrapebase-delivery']).toBe(job.webhook!.id);
+    });
+  });
+
+  test('gives up after WEBHOOK_MAX_ATTEMPTS', async () => {
+    const receiver = await startReceiver([500]);
+    const job = finishedJob(receiver.url);
+
+    try {
+      await deliverJobWebhook(job);
+    } finally {
+      await receiver.close();
+    }
+
+    expect(receiver.received).toHaveLength(MAX_ATTEMPTS);
+    expect(job.webhook!.status).toBe('failed');
+    expect(job.webhook!.attempts).toHaveLength(MAX_ATTEMPTS);
+  });
+
+  test('records attempts that got no response', async () => {
+    // A port that was free a moment ago refuses the connection
+    const receiver = await startReceiver();
+    await receiver.close();
+    const job = finishedJob(receiver.url);
+
+    await deliverJobWebhook(job);
+
+    expect(job.webhook!.status).toBe('failed');
+    job.webhook!.attempts.forEach(attempt => {
+      expect(attempt.statusCode).toBeUndefined();
+      expect(attempt.error).toMatch(/ECONNREFUSED/);
+    });
+  });
+});
+
+test.describe('GET /api/jobs/:id/deliveries', () => {
+  let owner: ApiKeyRecord;
+  let stranger: ApiKeyRecord;
+  let server: http.Server;
+  let baseUrl: string;
+
+  test.beforeAll(async () => {
+    owner = createApiKey({ tier: 'pro_user', ownerEmail: 'owner@example.com' }).record;
+    stranger = createApiKey({ tier: 'pro_user', ownerEmail: 'stranger@example.com' }).record;
+
+    // Stands in for apiKeyAuth: the caller is picked by the x-key-id header
+    const app = express();
+    app.use((req, _res, next) => {
+      req.apiKey = [owner, stranger].find(record => record.id === req.headers['x-key-id']);
+      next();
+    });
+    app.use('/api/jobs', jobsRouter);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+
+    // Jobs finish straight away instead of loading a page
+    registerJobRunner('scrape', async (req, context) => {
+      context.started();
+      return { success: true, data: { url: req.body.url } };
+    });
+  });
+
+  test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const getDeliveries = async (job: Job, record: ApiKeyRecord) => {
+    const response = await fetch(`${baseUrl}/api/jobs/${job.id}/deliveries`, { headers: { 'x-key-id': record.id } });
+    return { status: response.status, body: await response.json() };
+  };
+
+  test('lists every attempt of a finished job\'s delivery', async () => {
+    const receiver = await startReceiver([502, 200]);
+    const callbackUrl = getCallbackUrl({ callbackUrl: receiver.url });
+    const job = startJob({ body: { url: 'https://example.org' }, apiKey: owner }, 'scrape', 'https://example.org', { callbackUrl });
+
+    try {
+      await waitForJob(job);
+      await expect.poll(() => job.webhook?.status).toBe('delivered');
+    } finally {
+      await receiver.close();
+    }
+
+    const { status, body } = await getDeliveries(job, owner);
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ url: receiver.url, event: 'job.completed', status: 'delivered' });
+    expect(body.attempts.map((attempt: any) => attempt.statusCode)).toEqual([502, 200]);
+    expect(JSON.parse(receiver.received[1].body)).toEqual({ success: true, data: { url: 'https://example.org' } });
+
+    // Other keys cannot see the job at all
+    expect((await getDeliveries(job, stranger)).status).toBe(404);
+  });
+
+  test('answers 404 for a job without a callbackUrl', async () => {
+    const job = startJob({ body: { url: 'https://example.org' }, apiKey: owner }, 'scrape', 'https://example.org');
+    await waitForJob(job);
+
+    expect(await getDeliveries(job, owner)).toEqual({ status: 404, body: { error: 'Job has no callbackUrl' } });
+  });
+});
+
+test.describe('callback URLs', () => {
+  test('must be http or https URLs', () => {
+    expect(getCallbackUrl({})).toBeUndefined();
+    expect(getCallbackUrl({ callbackUrl: 'https://hooks.example.com/scrapebase' })).toBe('https://hooks.example.com/scrapebase');
+    expect(() => getCallbackUrl({ callbackUrl: 'ftp://hooks.example.com/' })).toThrow('callbackUrl must be an http or https URL');
+    expect(() => getCallbackUrl({ callbackUrl: 42 })).toThrow('callbackUrl must be an http or https URL');
+  });
+
+  test('recognize loopback, link-local and private addresses', () => {
+    for (const address of ['127.0.0.1', '10.2.3.4', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254',
+      '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    for (const address of ['8.8.8.8', '172.32.0.1', '93.184.216.34', '2606:4700::1111', '::ffff:8.8.8.8', 'example.com']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  test('may point at private addresses once WEBHOOK_ALLOW_PRIVATE is set', () => {
+    // The tests run with WEBHOOK_ALLOW_PRIVATE=true so the receiver can listen on 127.0.0.1
+    expect(getCallbackUrl({ callbackUrl: 'http://127.0.0.1:8080/hooks' })).toBe('http://127.0.0.1:8080/hooks');
+    expect(getCallbackUrl({ callbackUrl: 'http://localhost:8080/hooks' })).toBe('http://localhost:8080/hooks');
+  });
+});